@@ -1,284 +1,1581 @@
 import posthog from 'posthog-js';
 import {
+  ActiveTourState,
+  DuplicateTourIdError,
+  FrequencyCapOptions,
+  PostHogToursEvent,
+  PostHogToursEvents,
+  PostHogToursListener,
   PostHogToursOptions,
+  PostHogToursSnapshot,
   PostHogNotInitializedError,
+  SnoozeDuration,
+  StepRenderer,
+  TourAnalyticsEvent,
+  TourBlockedReason,
+  TourCondition,
   TourConfig,
-  TourEligibilityResult
+  TourConfigError,
+  TourDefinition,
+  TourEligibilityResult,
+  TourEligibilitySnapshot,
+  TourStateRecord,
+  TourStatus,
+  TourSnapshot,
+  TourStep,
+  TourTarget,
+  TourTrigger,
+  TourTriggerType,
+  UnknownTourError,
+  VisibilityOptions
 } from './types';
+import { findFailedCondition } from './conditions';
+import { createDefaultStore, LocalStorageStore } from './stores';
+import { TabCoordinator } from './TabCoordinator';
+import { describeTarget, resolveTarget, TargetWatcher, watchTarget } from './targets';
+import { parseTourDefinitions } from './tourDefinitions';
+import { TourStateManager } from './TourStateManager';
+import { matchesUrl, onNavigation } from './urlMatching';
+import { validateTourConfigs, validateTourSelectors } from './validation';
+import { DEFAULT_VISIBILITY_OPTIONS, waitForVisibility } from './visibility';
+
+const MINUTE_IN_MS = 60 * 1000;
+const HOUR_IN_MS = 60 * MINUTE_IN_MS;
+const DAY_IN_MS = 24 * HOUR_IN_MS;
+
+// Any of these restarts the countdown of idle triggers
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'];
+
+interface FrequencyCapState {
+  sessionId: string | null;
+  sessionCount: number; // Tours shown in `sessionId`
+  shownAt: number[]; // When tours were shown over the last 24 hours
+  lastEndedAt: number | null; // When the previous tour ended
+}
+
+interface EventCountState {
+  sessionId: string | null;
+  counts: Record<string, number>; // Captures per event name in `sessionId`
+}
 
 export class PostHogTours {
   private posthog: typeof posthog;
   private tours: Record<string, TourConfig>;
-  private observers: Map<string, MutationObserver> = new Map();
-  private intersectionObservers: Map<string, IntersectionObserver> = new Map();
+  private toursPayloadFlag?: string;
+  private observers: Map<string, TargetWatcher> = new Map();
+  private visibilityChecks: Map<string, () => void> = new Map(); // Cancels the check, which then resolves as not visible
+  private triggerCleanups: Map<string, () => void> = new Map();
+  private firedTriggers: Set<string> = new Set();
   private userPropertyPrefix: string;
   private defaultOnEligible?: (element: Element, tourId: string) => void;
-  private shouldCheckElementVisibility: boolean;
+  private defaultOnStepChange?: (element: Element, step: TourStep, stepIndex: number, tourId: string) => void;
+  private visibilityOptions: VisibilityOptions | null; // Null unless targets need to be visible
+  private renderer?: StepRenderer;
+  private analytics: Partial<Record<TourAnalyticsEvent, boolean>>;
+  private reshowDismissedAfterHours?: number;
+  private frequencyCap: FrequencyCapOptions;
+  private frequencyCapTimer: ReturnType<typeof setTimeout> | null = null;
   private activeTourId: string | null = null;
-  private localStorageKey = 'posthog_tours_seen';
+  private activeStepIndex = 0;
+  private activeStepViewed = false; // Resuming shows the step again without counting another view
+  private activeTourCounted = false; // Whether the active tour counted towards the frequency caps when it started
+  private queue: string[] = [];
+  private state: TourStateManager;
+  private distinctId: string | null;
+  private identified: boolean;
+  private mergeAnonymousState: boolean;
+  private tabs: TabCoordinator | null = null;
+  private frequencyStorageKey = 'posthog_tours_frequency';
+  private eventCountsStorageKey = 'posthog_tours_events';
+  private featureFlagsLoaded = false;
+  private stateLoading: Promise<void> | null = null; // Set while an async store is loading
+  private heldChanges: Array<() => void> = []; // Made while the store was loading, applied once it has
+  private unsubscribeFromFeatureFlags?: () => void;
+  private unsubscribeFromNavigation?: () => void;
+  private unsubscribeFromEvents?: () => void;
+  private listeners: Map<PostHogToursEvent, Set<PostHogToursListener<any>>> = new Map();
+  private subscribers: Set<() => void> = new Set();
+  private snapshot: PostHogToursSnapshot | null = null; // Built on demand after each change
+  private eligibility: Map<string, TourEligibilitySnapshot> = new Map();
+  private paused = false;
+  private destroyed = false;
+  private interruptedTourId: string | null = null; // Hidden by navigation before it ended, so showing it again doesn't count towards frequency caps
+  private currentUrl: string;
   private debug: boolean;
 
   constructor(options: PostHogToursOptions) {
     this.posthog = options.posthogInstance || posthog;
-    this.tours = options.tours;
+    this.tours = { ...options.tours };
+    this.toursPayloadFlag = options.toursPayloadFlag;
     this.userPropertyPrefix = options.userPropertyPrefix || 'seen_tour_';
     this.defaultOnEligible = options.defaultOnEligible;
-    this.shouldCheckElementVisibility = options.checkElementVisibility ?? true;
+    this.defaultOnStepChange = options.defaultOnStepChange;
+    const checkElementVisibility = options.checkElementVisibility ?? true;
+    this.visibilityOptions = checkElementVisibility === false ? null : checkElementVisibility === true ? {} : checkElementVisibility;
+    this.renderer = options.renderer;
+    this.analytics = options.analytics || {};
+    this.reshowDismissedAfterHours = options.reshowDismissedAfterHours;
+    this.frequencyCap = options.frequencyCap || {};
+    this.mergeAnonymousState = options.mergeAnonymousState ?? true;
     this.debug = options.debug ?? false; // Default to false (silent mode)
+    this.currentUrl = window.location.href;
 
     // Check if PostHog is initialized
     if (!this.posthog.__loaded) {
       throw new PostHogNotInitializedError();
     }
 
-    // Validate that all provided feature flags exist
-    this.validateFeatureFlags();
+    // Surface config mistakes while developing rather than failing silently
+    if (this.debug) {
+      this.validateTours().forEach(error => this.log('warn', `PostHog Tours: ${error.message}`));
+    }
+
+    // Load state and sync it with PostHog, then validate flags and start monitoring
+    // tours once feature flags have loaded
+    this.distinctId = this.getDistinctId();
+    this.identified = this.isIdentified();
+    const store = options.stateStore || createDefaultStore();
+    this.state = new TourStateManager(
+      store,
+      this.posthog,
+      this.userPropertyPrefix,
+      this.distinctId,
+      (level, ...args) => this.log(level, ...args),
+      (tourId, record) => this.emit('stateSynced', { tourId, record, source: 'posthog' })
+    );
+    const loading = this.state.load([this.frequencyStorageKey, this.eventCountsStorageKey]);
+    if (loading) {
+      this.stateLoading = loading.then(() => {
+        this.stateLoading = null;
+        const heldChanges = this.heldChanges;
+        this.heldChanges = [];
+        heldChanges.forEach(change => !this.destroyed && change());
+      });
+      // The instance may have been destroyed while an async store was loading
+      this.stateLoading.then(() => !this.destroyed && this.subscribeToFeatureFlags());
+    } else {
+      this.subscribeToFeatureFlags();
+    }
+
+    // Only patch history when a tour is limited to certain pages
+    if (Object.values(this.tours).some(tour => tour.url !== undefined)) {
+      this.watchNavigation();
+    }
+
+    // Count events for tours that are conditioned on them
+    this.watchEvents();
+
+    if (options.crossTab ?? true) {
+      this.tabs = new TabCoordinator({
+        onStateChange: (tourId, record, distinctId) => this.handleRemoteTourState(tourId, record, distinctId),
+        onClaimLost: (tourId) => this.handleClaimLost(tourId),
+        onClaimReleased: (tourId) => this.handleClaimReleased(tourId)
+      }, store instanceof LocalStorageStore); // Without BroadcastChannel, tabs talk through localStorage if it works
+    }
+
+    if (options.toursUrl) {
+      this.loadToursFromUrl(options.toursUrl).catch(error => {
+        this.log('error', `PostHog Tours: Failed to load tours from ${options.toursUrl}:`, error);
+      });
+    }
+  }
+
+  private log(level: 'log' | 'warn' | 'error', ...args: any[]): void {
+    if (this.debug) {
+      console[level](...args);
+    }
+
+    // Errors reach listeners even in silent mode
+    if (level === 'error') {
+      this.emit('error', { message: String(args[0]), error: args[1] });
+    }
+  }
+
+  public on<E extends PostHogToursEvent>(event: E, listener: PostHogToursListener<E>): () => void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)?.add(listener);
+
+    return () => this.off(event, listener);
+  }
+
+  public off<E extends PostHogToursEvent>(event: E, listener: PostHogToursListener<E>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  private emit<E extends PostHogToursEvent>(event: E, payload: PostHogToursEvents[E]): void {
+    // Errors don't change the snapshot, and a throwing subscriber would otherwise loop
+    if (event !== 'error') {
+      this.invalidateSnapshot();
+    }
+
+    this.listeners.get(event)?.forEach(listener => {
+      // A broken listener shouldn't break tours or the other listeners
+      try {
+        listener(payload);
+      } catch (error) {
+        this.log(event === 'error' ? 'warn' : 'error', `PostHog Tours: A listener for "${event}" threw an error:`, error);
+      }
+    });
+  }
+
+  // For UI bindings: `listener` is called after anything in getSnapshot() changes
+  public subscribe(listener: () => void): () => void {
+    this.subscribers.add(listener);
+    return () => {
+      this.subscribers.delete(listener);
+    };
+  }
+
+  public getSnapshot(): PostHogToursSnapshot {
+    if (!this.snapshot) {
+      const tours: Record<string, Readonly<TourSnapshot>> = {};
+      Object.keys(this.tours).forEach(tourId => {
+        const eligibility = this.eligibility.get(tourId);
+        const state = this.state.peekTourState(tourId);
+        tours[tourId] = Object.freeze({
+          // Tours leave the queue without being checked again, e.g. when they're completed in another tab
+          eligibility: eligibility ? Object.freeze({ ...eligibility, queued: this.queue.includes(tourId) }) : null,
+          state: state ? Object.freeze({ ...state }) : null
+        });
+      });
+
+      const activeTour = this.getActiveTour();
+      this.snapshot = Object.freeze({
+        activeTour: activeTour ? Object.freeze(activeTour) : null,
+        queue: Object.freeze([...this.queue]),
+        paused: this.paused,
+        tours: Object.freeze(tours)
+      });
+    }
+
+    return this.snapshot;
+  }
+
+  private invalidateSnapshot(): void {
+    this.snapshot = null;
+    this.subscribers.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        this.log('error', 'PostHog Tours: A subscriber threw an error:', error);
+      }
+    });
+  }
+
+  private captureEvent(event: TourAnalyticsEvent, properties: Record<string, any>): void {
+    if (this.analytics[event] === false) {
+      return;
+    }
+    this.posthog.capture(event, properties);
+  }
+
+  private getEventProperties(tourId: string, stepIndex?: number): Record<string, any> {
+    const tour = this.resolveTour(tourId);
+    const properties: Record<string, any> = {
+      tour_id: tourId,
+      tour_name: tour?.name,
+      step_count: tour ? this.getTourSteps(tour).length : 0
+    };
+
+    const variant = this.getFlagVariant(tourId);
+    if (variant !== null) {
+      properties.tour_variant = variant;
+    }
+
+    if (stepIndex !== undefined) {
+      properties.step_index = stepIndex;
+    }
+
+    return properties;
+  }
+
+  private subscribeToFeatureFlags(): void {
+    if (typeof this.posthog.onFeatureFlags !== 'function') {
+      // No way to wait for flags, so evaluate them straight away
+      this.handleFeatureFlags();
+      return;
+    }
+
+    // Called immediately if flags are already loaded, and again whenever they change
+    this.unsubscribeFromFeatureFlags = this.posthog.onFeatureFlags(() => this.handleFeatureFlags());
+  }
+
+  private handleFeatureFlags(): void {
+    // Pick up tour definitions before checking any tours, as the payload may have changed too
+    if (this.toursPayloadFlag) {
+      this.loadToursFromPayload(this.toursPayloadFlag);
+    }
+
+    // Flags reload after identify() and reset(), so this is where we notice a different user
+    const switchingIdentity = this.syncIdentity();
+
+    if (!this.featureFlagsLoaded) {
+      this.featureFlagsLoaded = true;
+      this.validateFeatureFlags();
+    } else {
+      // Flags changed mid-session (e.g. after identify() or reloadFeatureFlags()),
+      // so re-check every tour against the new values
+      this.log('log', 'PostHog Tours: Feature flags changed, re-checking tour eligibility.');
+      this.stopMonitoringTours();
+    }
+
+    if (switchingIdentity) {
+      // The instance may have been destroyed while the new user's state was loading
+      switchingIdentity.then(() => !this.destroyed && this.startMonitoringTours());
+    } else {
+      this.startMonitoringTours();
+    }
+  }
+
+  private getDistinctId(): string | null {
+    if (typeof this.posthog.get_distinct_id !== 'function') {
+      return null;
+    }
+    return this.posthog.get_distinct_id() || null;
+  }
+
+  private isIdentified(): boolean {
+    return this.posthog.get_property('$user_state') === 'identified';
+  }
+
+  private syncIdentity(): void | Promise<void> {
+    const distinctId = this.getDistinctId();
+    if (distinctId === this.distinctId) {
+      return;
+    }
+
+    // An anonymous user who logs in is the same person, so keep the tours they've seen.
+    // Anyone else (a reset() or a different login) starts from their own state.
+    const identified = this.isIdentified();
+    const merge = this.mergeAnonymousState && !this.identified && identified;
+    this.log('log', `PostHog Tours: Distinct id changed from ${this.distinctId} to ${distinctId}, ${merge ? 'merging' : 'reloading'} tour state.`);
+
+    this.distinctId = distinctId;
+    this.identified = identified;
+
+    // Whatever was showing or waiting belonged to the previous user
+    this.queue = [];
+    this.firedTriggers.clear();
+    this.eligibility.clear();
+    this.endActiveTour();
+    this.interruptedTourId = null;
+
+    return this.state.switchIdentity(distinctId, merge);
+  }
+
+  private watchNavigation(): void {
+    if (this.unsubscribeFromNavigation) {
+      return;
+    }
+
+    this.unsubscribeFromNavigation = onNavigation(() => this.handleNavigation());
+  }
+
+  private handleNavigation(): void {
+    // replaceState is often called without changing the URL
+    if (window.location.href === this.currentUrl) {
+      return;
+    }
+    this.currentUrl = window.location.href;
+
+    if (!this.featureFlagsLoaded) {
+      return;
+    }
+
+    this.log('log', `PostHog Tours: Navigated to ${this.currentUrl}, re-checking tour eligibility.`);
+
+    // Triggers only count for the page they fired on
+    this.firedTriggers.clear();
+
+    // Tours that don't belong on this page stop waiting for their target
+    Object.keys(this.tours).forEach(tourId => {
+      if (this.matchesTourUrl(tourId)) {
+        return;
+      }
+
+      this.removeFromQueue(tourId);
+      this.visibilityChecks.get(tourId)?.();
+
+      // Hide the active tour without recording it, so it shows again on a matching page
+      if (this.activeTourId === tourId) {
+        this.endActiveTour(false);
+        this.interruptedTourId = tourId;
+      }
+    });
+
+    this.stopMonitoringTours();
+    this.startMonitoringTours();
+  }
+
+  private watchEvents(): void {
+    if (this.unsubscribeFromEvents || typeof this.posthog.on !== 'function' || this.getTrackedEvents().size === 0) {
+      return;
+    }
+
+    this.unsubscribeFromEvents = this.posthog.on('eventCaptured', (data: { event?: string } | undefined) => {
+      if (data?.event) {
+        this.handleEventCaptured(data.event);
+      }
+    });
+  }
+
+  private getTrackedEvents(): Set<string> {
+    const events = new Set<string>();
+    Object.keys(this.tours).forEach(tourId => {
+      this.getTourConditions(tourId).forEach(condition => {
+        if (condition.type === 'event') {
+          events.add(condition.event);
+        }
+      });
+
+      const trigger = this.getTourTrigger(tourId);
+      if (trigger.type === 'event') {
+        events.add(trigger.event);
+      }
+    });
+    return events;
+  }
+
+  private handleEventCaptured(event: string): void {
+    if (!this.getTrackedEvents().has(event) || this.holdUntilStateLoaded(() => this.handleEventCaptured(event))) {
+      return;
+    }
+
+    const state = this.getEventCountState();
+    state.counts[event] = (state.counts[event] || 0) + 1;
+    this.saveEventCountState(state);
+
+    if (!this.featureFlagsLoaded) {
+      return;
+    }
+
+    // Tours triggered by or waiting on this event may have become eligible
+    this.getTourIdsByPriority().forEach(tourId => {
+      if (tourId === this.activeTourId) {
+        return;
+      }
+
+      const trigger = this.getTourTrigger(tourId);
+      if (trigger.type === 'event' && trigger.event === event) {
+        if (this.matchesTourUrl(tourId)) {
+          this.fireTrigger(tourId);
+        }
+        return;
+      }
+
+      const waitsOnEvent = this.getTourConditions(tourId).some(condition => condition.type === 'event' && condition.event === event);
+      if (waitsOnEvent) {
+        this.checkTourEligibility(tourId);
+      }
+    });
+  }
+
+  private getEventCountState(): EventCountState {
+    const sessionId = this.getSessionId() ?? null;
+
+    try {
+      const stored = this.state.getItem(this.eventCountsStorageKey);
+      const state: EventCountState | null = stored ? JSON.parse(stored) : null;
+
+      // Counts only apply to the session they were captured in
+      if (state && state.sessionId === sessionId && state.counts) {
+        return state;
+      }
+    } catch (error) {
+      this.log('warn', 'Failed to parse posthog_tours_events from storage:', error);
+      this.state.removeItem(this.eventCountsStorageKey);
+    }
+
+    return { sessionId, counts: {} };
+  }
+
+  private saveEventCountState(state: EventCountState): void {
+    this.state.setItem(this.eventCountsStorageKey, JSON.stringify(state), 'Failed to save tour event counts to storage:');
+  }
+
+  private getTourConditions(tourId: string): TourCondition[] {
+    return this.resolveTour(tourId)?.conditions || [];
+  }
+
+  private evaluateConditions(tourId: string): Promise<TourCondition | null> {
+    const eventCounts = this.getEventCountState().counts;
+
+    return findFailedCondition(this.getTourConditions(tourId), {
+      tourId,
+      personProperties: this.posthog.get_property('$stored_person_properties') || {},
+      getEventCount: event => eventCounts[event] || 0,
+      onError: (condition, error) => {
+        this.log('error', `PostHog Tours: Condition ${condition.type === 'custom' && condition.name ? `"${condition.name}" ` : ''}for tour ${tourId} threw an error:`, error);
+      }
+    });
+  }
+
+  private matchesTourUrl(tourId: string): boolean {
+    return matchesUrl(this.resolveTour(tourId)?.url);
+  }
+
+  private validateFeatureFlags(): void {
+    const missingFlags = Object.keys(this.tours).filter(flag => !this.posthog.isFeatureEnabled(flag));
+
+    if (missingFlags.length > 0) {
+      this.log('warn', `PostHog Tours: The following feature flags are not configured: ${missingFlags.join(', ')}. These tours will be ignored.`);
+    }
+  }
+
+  private startMonitoringTours(): void {
+    this.getTourIdsByPriority().forEach(flagKey => this.startMonitoringTour(flagKey));
+  }
+
+  private startMonitoringTour(flagKey: string): void {
+    if (!this.matchesTourUrl(flagKey)) {
+      return;
+    }
+
+    const target = this.getTourTarget(this.resolveTour(flagKey) as TourConfig);
+    if (target) {
+      this.monitorTrigger(flagKey, target);
+    }
+  }
+
+  private stopMonitoringTours(): void {
+    Object.keys(this.tours).forEach(flagKey => this.stopMonitoringTour(flagKey));
+  }
+
+  private stopMonitoringTour(flagKey: string): void {
+    const observer = this.observers.get(flagKey);
+    if (observer) {
+      observer.disconnect();
+      this.observers.delete(flagKey);
+    }
+
+    this.triggerCleanups.get(flagKey)?.();
+  }
+
+  private loadToursFromPayload(flagKey: string): void {
+    if (typeof this.posthog.getFeatureFlagPayload !== 'function') {
+      return;
+    }
+
+    const payload = this.posthog.getFeatureFlagPayload(flagKey);
+    if (payload === undefined || payload === null) {
+      return;
+    }
+
+    try {
+      // Flags are about to be re-checked, so these tours only need navigation and events watched
+      const tourIds = this.mergeTourDefinitions(this.parseDefinitions(payload));
+      tourIds.forEach(tourId => this.watchForTour(this.tours[tourId]));
+    } catch (error) {
+      this.log('error', `PostHog Tours: Failed to load tours from the payload of ${flagKey}:`, error);
+    }
+  }
+
+  // Definitions only have their shape checked when parsed, so bad selectors are caught here before any of them is merged
+  private parseDefinitions(input: unknown): Record<string, TourDefinition> {
+    const definitions = parseTourDefinitions(input);
+    Object.entries(definitions).forEach(([tourId, definition]) => {
+      const [error] = validateTourSelectors(tourId, definition as Partial<TourConfig>);
+      if (error) {
+        throw error;
+      }
+    });
+    return definitions;
+  }
+
+  private mergeTourDefinitions(definitions: Record<string, TourDefinition>): string[] {
+    // Definitions replace what's configured for a tour, but keep callbacks that were set up in code
+    Object.entries(definitions).forEach(([tourId, definition]) => {
+      const existing = this.tours[tourId];
+      this.tours[tourId] = {
+        ...definition,
+        onEligible: existing?.onEligible,
+        onStepChange: existing?.onStepChange
+      };
+    });
+
+    return Object.keys(definitions);
+  }
+
+  // Navigation and events are only watched once a tour needs them
+  private watchForTour(tour: TourConfig): void {
+    if (tour.url !== undefined) {
+      this.watchNavigation();
+    }
+    this.watchEvents();
+  }
+
+  // Starts or stops watching a tour after its config changed
+  private refreshTour(tourId: string): void {
+    this.stopMonitoringTour(tourId);
+    this.eligibility.delete(tourId);
+    this.invalidateSnapshot();
+
+    const tour = this.tours[tourId];
+    if (!tour) {
+      return;
+    }
+
+    this.watchForTour(tour);
+
+    if (this.featureFlagsLoaded) {
+      this.startMonitoringTour(tourId);
+    }
+  }
+
+  public loadTours(definitions: unknown): void {
+    if (this.warnIfDestroyed('loadTours')) {
+      return;
+    }
+
+    const tourIds = this.mergeTourDefinitions(this.parseDefinitions(definitions));
+    tourIds.forEach(tourId => this.refreshTour(tourId));
+  }
+
+  public async loadToursFromUrl(url: string): Promise<void> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Request failed with status ${response.status}`);
+    }
+
+    this.loadTours(await response.json());
+  }
+
+  public validateTours(): TourConfigError[] {
+    return validateTourConfigs(this.tours);
+  }
+
+  public addTour(tourId: string, config: TourConfig): void {
+    if (this.warnIfDestroyed('addTour')) {
+      return;
+    }
+
+    if (this.tours[tourId]) {
+      throw new DuplicateTourIdError(tourId);
+    }
+
+    this.tours[tourId] = config;
+    this.refreshTour(tourId);
+  }
+
+  public updateTour(tourId: string, changes: Partial<TourConfig>): void {
+    if (this.warnIfDestroyed('updateTour')) {
+      return;
+    }
+
+    if (!this.tours[tourId]) {
+      throw new UnknownTourError(tourId);
+    }
+
+    this.tours[tourId] = { ...this.tours[tourId], ...changes };
+    this.refreshTour(tourId);
+  }
+
+  public removeTour(tourId: string): void {
+    if (this.warnIfDestroyed('removeTour') || !this.tours[tourId]) {
+      return;
+    }
+
+    this.stopMonitoringTour(tourId);
+    this.removeFromQueue(tourId);
+    this.firedTriggers.delete(tourId);
+
+    const wasActive = this.activeTourId === tourId;
+    if (wasActive) {
+      this.endActiveTour();
+    }
+
+    delete this.tours[tourId];
+    this.eligibility.delete(tourId);
+    this.invalidateSnapshot();
+
+    if (wasActive) {
+      this.startNextTour();
+    }
+  }
+
+  private getTourTrigger(tourId: string): TourTrigger {
+    return this.resolveTour(tourId)?.trigger || { type: 'element' };
+  }
+
+  private monitorTrigger(tourId: string, target: TourTarget): void {
+    const trigger = this.getTourTrigger(tourId);
+
+    // Event triggers are fired from the eventCaptured listener
+    switch (trigger.type) {
+      case 'element':
+        this.monitorElement(tourId, target);
+        break;
+      case 'click':
+        this.monitorClick(tourId, trigger.selector);
+        break;
+      case 'idle':
+        this.monitorIdle(tourId, trigger.seconds);
+        break;
+      case 'dwell':
+        this.monitorDwell(tourId, target, trigger.seconds);
+        break;
+    }
+  }
+
+  private fireTrigger(tourId: string): void {
+    // Already fired and waiting for the target
+    if (this.firedTriggers.has(tourId) && this.observers.has(tourId)) {
+      return;
+    }
+
+    this.log('log', `PostHog Tours: Trigger for tour ${tourId} fired.`);
+    this.firedTriggers.add(tourId);
+
+    // The target may only appear after the trigger, e.g. in a modal opened by a click
+    const target = this.getTourTarget(this.resolveTour(tourId) as TourConfig);
+    if (target) {
+      this.monitorElement(tourId, target);
+    }
+  }
+
+  private monitorClick(tourId: string, selector: string): void {
+    const onClick = (event: Event) => {
+      if (event.target instanceof Element && event.target.closest(selector)) {
+        cleanup();
+        this.fireTrigger(tourId);
+      }
+    };
+    const cleanup = () => {
+      document.removeEventListener('click', onClick, true);
+      this.triggerCleanups.delete(tourId);
+    };
+
+    document.addEventListener('click', onClick, true);
+    this.triggerCleanups.set(tourId, cleanup);
+  }
+
+  private monitorIdle(tourId: string, seconds: number): void {
+    let timer: ReturnType<typeof setTimeout>;
+
+    const onIdle = () => {
+      cleanup();
+      this.fireTrigger(tourId);
+    };
+    const onActivity = () => {
+      clearTimeout(timer);
+      timer = setTimeout(onIdle, seconds * 1000);
+    };
+    const cleanup = () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, onActivity, true));
+      this.triggerCleanups.delete(tourId);
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, onActivity, { capture: true, passive: true }));
+    timer = setTimeout(onIdle, seconds * 1000);
+    this.triggerCleanups.set(tourId, cleanup);
+  }
+
+  private monitorDwell(tourId: string, target: TourTarget, seconds: number): void {
+    this.waitForElement(tourId, target, (element) => {
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      let observer: IntersectionObserver | null = null;
+
+      const startTimer = () => {
+        if (timer === null) {
+          timer = setTimeout(() => {
+            cleanup();
+            this.fireTrigger(tourId);
+          }, seconds * 1000);
+        }
+      };
+      const cancelTimer = () => {
+        if (timer !== null) {
+          clearTimeout(timer);
+          timer = null;
+        }
+      };
+      const cleanup = () => {
+        cancelTimer();
+        observer?.disconnect();
+        this.triggerCleanups.delete(tourId);
+      };
+
+      this.triggerCleanups.set(tourId, cleanup);
+
+      // Without IntersectionObserver we can't tell, so count the time since the target appeared
+      if (typeof IntersectionObserver === 'undefined') {
+        startTimer();
+        return;
+      }
+
+      // Restart the countdown whenever the target scrolls out of view
+      observer = new IntersectionObserver((entries) => {
+        if (entries[0].isIntersecting) {
+          startTimer();
+        } else {
+          cancelTimer();
+        }
+      }, { threshold: 0.1 });
+      observer.observe(element);
+    });
+  }
+
+  private monitorElement(flagKey: string, target: TourTarget): void {
+    this.waitForElement(flagKey, target, () => {
+      this.checkTourEligibility(flagKey);
+    });
+  }
+
+  private findTarget(target: TourTarget): Element | null {
+    return resolveTarget(target, error => {
+      this.log('error', `PostHog Tours: Finding ${describeTarget(target)} threw an error:`, error);
+    });
+  }
+
+  private waitForElement(observerKey: string, target: TourTarget, onFound: (element: Element) => void): void {
+    // Check if element already exists
+    const element = this.findTarget(target);
+    if (element) {
+      onFound(element);
+      return;
+    }
+
+    // Set up observers to watch for the element
+    const watcher = watchTarget(target, () => {
+      const element = this.findTarget(target);
+      if (element) {
+        watcher.disconnect();
+        this.observers.delete(observerKey);
+        onFound(element);
+      }
+    });
+
+    this.observers.set(observerKey, watcher);
+  }
+
+  private getFlagVariant(tourId: string): string | null {
+    if (typeof this.posthog.getFeatureFlag !== 'function') {
+      return null;
+    }
+
+    const value = this.posthog.getFeatureFlag(tourId);
+    return typeof value === 'string' ? value : null;
+  }
+
+  private isFlagEnabled(tourId: string): boolean {
+    if (!this.posthog.isFeatureEnabled(tourId)) {
+      return false;
+    }
+
+    // Variants mapped to null (e.g. a control group) don't get a tour
+    const variants = this.tours[tourId]?.variants;
+    if (variants) {
+      const variant = this.getFlagVariant(tourId);
+      return variant === null || variants[variant] !== null;
+    }
+
+    return true;
+  }
+
+  private resolveTour(tourId: string): TourConfig | undefined {
+    const tour = this.tours[tourId];
+    if (!tour || !tour.variants) {
+      return tour;
+    }
+
+    const variant = this.getFlagVariant(tourId);
+    const overrides = variant !== null ? tour.variants[variant] : undefined;
+    return overrides ? { ...tour, ...overrides } : tour;
+  }
+
+  private getTourTarget(tour: TourConfig): TourTarget | undefined {
+    return tour.target || tour.steps?.[0]?.target;
+  }
+
+  private getTourSteps(tour: TourConfig): TourStep[] {
+    if (tour.steps && tour.steps.length > 0) {
+      return tour.steps;
+    }
+
+    // Single-target tours behave like a tour with one step
+    const target = this.getTourTarget(tour);
+    return target ? [{ target, title: tour.name }] : [];
+  }
+
+  public async checkTourEligibility(tourId: string): Promise<TourEligibilityResult> {
+    if (this.stateLoading) {
+      await this.stateLoading;
+    }
+
+    if (!this.tours[tourId]) {
+      throw new UnknownTourError(tourId);
+    }
+
+    const tour = this.resolveTour(tourId) as TourConfig;
+    const target = this.getTourTarget(tour);
+
+    const element = target ? this.findTarget(target) : null;
+    const flagEnabled = this.isFlagEnabled(tourId);
+    const urlMatched = this.matchesTourUrl(tourId);
+    const trigger = this.getTourTrigger(tourId);
+    const triggered = trigger.type === 'element' || this.firedTriggers.has(tourId);
+    const state = this.getTourState(tourId);
+    const alreadySeen = this.isBlockedByState(tourId, state);
+    const prerequisitesMet = this.arePrerequisitesMet(tour);
+    const failedCondition = await this.evaluateConditions(tourId);
+
+    const result: TourEligibilityResult = {
+      eligible: false,
+      element,
+      tourId,
+      flagEnabled,
+      urlMatched,
+      triggered,
+      targetPresent: !!element,
+      alreadySeen,
+      status: state?.status ?? null,
+      variant: this.getFlagVariant(tourId),
+      prerequisitesMet,
+      conditionsMet: failedCondition === null,
+      failedCondition,
+      queued: false,
+      blockedReason: null
+    };
+
+    // The instance was destroyed or the tour removed while we waited for conditions, the flag is off, we're on the wrong page, the trigger hasn't fired, element doesn't exist, user has already seen it,
+    // has not completed the tours it depends on or doesn't meet the tour's conditions
+    if (this.destroyed) {
+      result.blockedReason = 'destroyed';
+    } else if (!this.tours[tourId]) {
+      result.blockedReason = 'removed';
+    } else if (!flagEnabled) {
+      result.blockedReason = 'flag_disabled';
+    } else if (!urlMatched) {
+      result.blockedReason = 'url_mismatch';
+    } else if (!triggered) {
+      result.blockedReason = 'not_triggered';
+    } else if (!element) {
+      result.blockedReason = 'target_missing';
+    } else if (alreadySeen) {
+      result.blockedReason = state?.status === 'snoozed' ? 'snoozed' : 'already_seen';
+    } else if (!prerequisitesMet) {
+      result.blockedReason = 'prerequisites_not_met';
+    } else if (failedCondition) {
+      result.blockedReason = 'condition_failed';
+    } else if (this.activeTourId !== tourId) {
+      // Don't show a tour that another tab is showing, or too many tours in a row (the active tour has already been counted)
+      result.blockedReason = this.tabs?.isClaimedElsewhere(tourId)
+        ? 'active_in_other_tab'
+        : this.interruptedTourId === tourId ? null : this.getFrequencyCapReason();
+    }
+
+    if (result.blockedReason || !element) {
+      return this.blockTour(result);
+    }
+
+    // If we need to check visibility
+    const visibilityOptions = this.getVisibilityOptions(tourId);
+    if (visibilityOptions) {
+      const isVisible = await this.checkVisibility(tourId, element, visibilityOptions);
+      if (this.destroyed) {
+        result.blockedReason = 'destroyed';
+        return this.blockTour(result);
+      }
+      if (!this.tours[tourId]) {
+        result.blockedReason = 'removed';
+        return this.blockTour(result);
+      }
+      if (!isVisible) {
+        result.blockedReason = 'not_visible';
+        return this.blockTour(result);
+      }
+    }
+
+    // We've met all conditions for eligibility!
+    result.eligible = true;
+
+    // Only trigger the tour if no other tour is active and tours aren't paused, otherwise wait
+    if (this.activeTourId === null && !this.paused) {
+      this.eligibility.set(tourId, { eligible: true, queued: false, blockedReason: null });
+      this.emit('eligible', { tourId, element, queued: false });
+      this.startTour(tourId, element, trigger.type);
+    } else if (this.activeTourId !== tourId) {
+      this.enqueueTour(tourId);
+      result.queued = true;
+      this.eligibility.set(tourId, { eligible: true, queued: true, blockedReason: null });
+      this.emit('eligible', { tourId, element, queued: true });
+    }
+
+    return result;
+  }
+
+  private blockTour(result: TourEligibilityResult): TourEligibilityResult {
+    if (result.blockedReason) {
+      this.eligibility.set(result.tourId, { eligible: false, queued: false, blockedReason: result.blockedReason });
+      this.emit('blocked', { tourId: result.tourId, reason: result.blockedReason, result });
+    }
+    return result;
+  }
+
+  private enqueueTour(tourId: string): void {
+    if (this.queue.includes(tourId)) {
+      return;
+    }
+
+    // Keep the queue sorted by priority, first come first served within the same priority
+    const priority = this.tours[tourId].priority || 0;
+    const index = this.queue.findIndex(queuedId => (this.tours[queuedId].priority || 0) < priority);
+    if (index === -1) {
+      this.queue.push(tourId);
+    } else {
+      this.queue.splice(index, 0, tourId);
+    }
+    this.invalidateSnapshot();
+
+    this.captureEvent('tour_enqueued', {
+      ...this.getEventProperties(tourId),
+      active_tour_id: this.activeTourId,
+      queue_position: this.queue.indexOf(tourId)
+    });
+  }
 
-    // Sync localStorage with PostHog on initialization
-    this.syncLocalStorageWithPostHog();
+  private removeFromQueue(tourId: string): void {
+    this.queue = this.queue.filter(queuedId => queuedId !== tourId);
+    this.invalidateSnapshot();
+  }
 
-    // Start monitoring all tours
-    this.startMonitoringTours();
+  public getQueue(): string[] {
+    return [...this.queue];
   }
 
-  private log(level: 'log' | 'warn' | 'error', ...args: any[]): void {
-    if (this.debug) {
-      console[level](...args);
+  private async startNextTour(): Promise<void> {
+    if (this.paused || this.destroyed) {
+      return;
     }
-  }
 
-  private syncLocalStorageWithPostHog(): void {
-    // Get all seen tours from PostHog
-    const userProperties = this.posthog.get_property('$stored_person_properties') || {};
-    const seenTours = this.getSeenToursFromStorage();
-    let hasChanges = false;
+    while (this.activeTourId === null && this.queue.length > 0) {
+      const tourId = this.queue.shift() as string;
+      this.invalidateSnapshot();
+      this.captureEvent('tour_dequeued', this.getEventProperties(tourId));
 
-    // Check for any tours marked as seen in PostHog but not in localStorage
-    Object.keys(userProperties).forEach(key => {
-      if (key.startsWith(this.userPropertyPrefix) && userProperties[key] && !seenTours[key]) {
-        seenTours[key] = true;
-        hasChanges = true;
+      // The tour may no longer be eligible, e.g. its target was removed while it waited
+      const result = await this.checkTourEligibility(tourId);
+      if (!result.eligible) {
+        this.captureEvent('tour_skipped', {
+          ...this.getEventProperties(tourId),
+          reason: result.blockedReason
+        });
       }
-    });
+    }
 
-    // Save to localStorage if there were any changes
-    if (hasChanges) {
-      this.saveSeenToursToStorage(seenTours);
+    // Nothing was waiting, so look for any other tour that is eligible now
+    if (this.activeTourId === null && !this.paused && !this.destroyed) {
+      await this.checkAllTours();
     }
   }
 
-  private validateFeatureFlags(): void {
-    const missingFlags = Object.keys(this.tours).filter(flag => !this.posthog.isFeatureEnabled(flag));
+  private arePrerequisitesMet(tour: TourConfig): boolean {
+    return (tour.after || []).every(prerequisiteId => this.getTourState(prerequisiteId)?.status === 'completed');
+  }
 
-    if (missingFlags.length > 0) {
-      this.log('warn', `PostHog Tours: The following feature flags are not configured: ${missingFlags.join(', ')}. These tours will be ignored.`);
-    }
+  private getTourIdsByPriority(): string[] {
+    // Array.prototype.sort is stable, so tours with equal priority keep their config order
+    return Object.keys(this.tours).sort((a, b) => (this.tours[b].priority || 0) - (this.tours[a].priority || 0));
   }
 
-  private startMonitoringTours(): void {
-    Object.entries(this.tours).forEach(([flagKey, tour]) => {
-      if (tour.target) {
-        this.monitorElement(flagKey, tour.target);
-      }
+  private startTour(tourId: string, element: Element, triggerType: TourTriggerType | 'forced'): void {
+    const tour = this.resolveTour(tourId) as TourConfig;
+
+    // Set this tour as active before calling the callback. It may have been queued and found eligible again by another check.
+    this.removeFromQueue(tourId);
+    this.activeTourId = tourId;
+    this.activeStepIndex = 0;
+    this.tabs?.claim(tourId);
+
+    // A tour that navigation interrupted was already counted when it first showed
+    this.activeTourCounted = this.interruptedTourId !== tourId;
+    if (this.activeTourCounted) {
+      this.recordTourShown();
+    } else {
+      this.interruptedTourId = null;
+    }
+    this.captureEvent('tour_shown', {
+      ...this.getEventProperties(tourId),
+      trigger_type: triggerType
     });
+    this.emit('shown', { tourId, element, triggerType });
+
+    // Call the callback
+    const onEligible = tour.onEligible || this.defaultOnEligible;
+    if (onEligible) {
+      onEligible(element, tourId);
+    }
+
+    // The callback may already have ended the tour
+    if (this.activeTourId === tourId) {
+      this.showStep(tourId, 0);
+    }
   }
 
-  private monitorElement(flagKey: string, selector: string): void {
-    // Check if element already exists
-    const element = document.querySelector(selector);
-    if (element) {
-      this.checkTourEligibility(flagKey);
+  private showStep(tourId: string, stepIndex: number, resuming = false): void {
+    const tour = this.resolveTour(tourId) as TourConfig;
+    const steps = this.getTourSteps(tour);
+    const step = steps[stepIndex];
+    if (!step) {
       return;
     }
 
-    // Set up observer to watch for the element
-    const observer = new MutationObserver((mutations, obs) => {
-      const element = document.querySelector(selector);
-      if (element) {
-        obs.disconnect();
-        this.observers.delete(flagKey);
-        this.checkTourEligibility(flagKey);
+    this.activeStepIndex = stepIndex;
+    this.activeStepViewed = this.activeStepViewed && resuming;
+    this.stopWaitingForStep(tourId);
+    this.invalidateSnapshot();
+
+    // Don't leave the previous step on screen while waiting for the next target
+    this.renderer?.hide();
+
+    // The step shows once tours are resumed
+    if (this.paused) {
+      return;
+    }
+
+    // Wait for the step's target before showing it
+    this.waitForElement(this.getStepObserverKey(tourId), step.target, (element) => {
+      // The user may have moved on while we were waiting
+      if (this.activeTourId !== tourId || this.activeStepIndex !== stepIndex) {
+        return;
       }
-    });
 
-    observer.observe(document.body, {
-      childList: true,
-      subtree: true
+      if (!this.activeStepViewed) {
+        this.activeStepViewed = true;
+        this.captureEvent('tour_step_viewed', this.getEventProperties(tourId, stepIndex));
+        this.emit('stepChanged', { tourId, stepIndex, step, element });
+
+        const onStepChange = tour.onStepChange || this.defaultOnStepChange;
+        if (onStepChange) {
+          onStepChange(element, step, stepIndex, tourId);
+        }
+      }
+
+      if (this.renderer && tour.useRenderer !== false) {
+        this.renderer.show(element, step, {
+          tourId,
+          tourName: tour.name,
+          stepIndex,
+          stepCount: steps.length
+        }, {
+          next: () => this.next(),
+          previous: () => this.previous(),
+          dismiss: () => this.dismiss(),
+          snooze: tour.snoozeDuration ? () => this.snoozeTour(tourId, tour.snoozeDuration as SnoozeDuration) : undefined
+        });
+      }
     });
+  }
 
-    this.observers.set(flagKey, observer);
+  private getStepObserverKey(tourId: string): string {
+    return `${tourId}:step`;
   }
 
-  public async checkTourEligibility(tourId: string): Promise<TourEligibilityResult> {
-    const tour = this.tours[tourId];
-    const selector = tour.target;
-
-    if (!selector) {
-      return {
-        eligible: false,
-        element: null,
-        tourId,
-        flagEnabled: this.posthog.isFeatureEnabled(tourId) || false,
-        targetPresent: false,
-        alreadySeen: this.hasTourBeenSeen(tourId)
-      };
+  private stopWaitingForStep(tourId: string): void {
+    const key = this.getStepObserverKey(tourId);
+    const observer = this.observers.get(key);
+    if (observer) {
+      observer.disconnect();
+      this.observers.delete(key);
     }
+  }
 
-    const element = document.querySelector(selector);
-    const flagEnabled = this.posthog.isFeatureEnabled(tourId) || false;
-    const alreadySeen = this.hasTourBeenSeen(tourId);
-    
-    const result: TourEligibilityResult = {
-      eligible: false,
-      element,
-      tourId,
-      flagEnabled,
-      targetPresent: !!element,
-      alreadySeen
+  // `recordEnd` is false when the tour is only hidden, so the gap between tours doesn't start yet
+  private endActiveTour(recordEnd = true): void {
+    if (this.activeTourId !== null) {
+      this.tabs?.release(this.activeTourId);
+      this.firedTriggers.delete(this.activeTourId);
+      this.stopWaitingForStep(this.activeTourId);
+      this.renderer?.hide();
+      if (recordEnd) {
+        this.recordTourEnded();
+      }
+    }
+    this.activeTourId = null;
+    this.activeStepIndex = 0;
+    this.invalidateSnapshot();
+  }
+
+  public getActiveTour(): ActiveTourState | null {
+    if (this.activeTourId === null) {
+      return null;
+    }
+
+    const steps = this.getTourSteps(this.resolveTour(this.activeTourId) as TourConfig);
+    return {
+      tourId: this.activeTourId,
+      stepIndex: this.activeStepIndex,
+      stepCount: steps.length,
+      step: steps[this.activeStepIndex]
     };
+  }
 
-    // Element doesn't exist or flag is off or user has already seen it
-    if (!element || !flagEnabled || alreadySeen) {
-      return result;
+  public next(): void {
+    if (this.activeTourId === null) {
+      return;
     }
 
-    // If we need to check visibility
-    if (this.shouldCheckElementVisibility) {
-      const isVisible = await this.checkVisibility(tourId, element);
-      if (!isVisible) {
-        return result;
-      }
+    const steps = this.getTourSteps(this.resolveTour(this.activeTourId) as TourConfig);
+    if (this.activeStepIndex >= steps.length - 1) {
+      this.complete();
+      return;
     }
 
-    // We've met all conditions for eligibility!
-    result.eligible = true;
+    this.showStep(this.activeTourId, this.activeStepIndex + 1);
+  }
+
+  public previous(): void {
+    if (this.activeTourId === null || this.activeStepIndex === 0) {
+      return;
+    }
+
+    this.showStep(this.activeTourId, this.activeStepIndex - 1);
+  }
 
-    // Only trigger the tour if no other tour is active
+  public goToStep(stepIndex: number): void {
     if (this.activeTourId === null) {
-      // Set this tour as active before calling the callback
-      this.activeTourId = tourId;
+      return;
+    }
 
-      // Call the callback
-      const onEligible = tour.onEligible || this.defaultOnEligible;
-      if (onEligible && element) {
-        onEligible(element, tourId);
-      }
+    const steps = this.getTourSteps(this.resolveTour(this.activeTourId) as TourConfig);
+    if (stepIndex < 0 || stepIndex >= steps.length) {
+      this.log('warn', `PostHog Tours: Step ${stepIndex} does not exist in tour ${this.activeTourId}.`);
+      return;
     }
 
-    return result;
+    this.showStep(this.activeTourId, stepIndex);
   }
 
-  private getSeenToursFromStorage(): Record<string, boolean> {
-    try {
-      const stored = localStorage.getItem(this.localStorageKey);
-      if (!stored) return {};
-      return JSON.parse(stored);
-    } catch (error) {
-      this.log('warn', 'Failed to parse posthog_tours_seen from localStorage:', error);
-      // Clear corrupted data
-      localStorage.removeItem(this.localStorageKey);
-      return {};
+  public complete(): void {
+    if (this.activeTourId !== null) {
+      this.markTourAsSeen(this.activeTourId);
+    }
+  }
+
+  public dismiss(): void {
+    if (this.activeTourId !== null) {
+      this.endTour(this.activeTourId, 'dismissed');
     }
   }
 
-  private saveSeenToursToStorage(seenTours: Record<string, boolean>): void {
+  private getFrequencyCapState(): FrequencyCapState {
+    const emptyState: FrequencyCapState = { sessionId: null, sessionCount: 0, shownAt: [], lastEndedAt: null };
+
     try {
-      localStorage.setItem(this.localStorageKey, JSON.stringify(seenTours));
+      const stored = this.state.getItem(this.frequencyStorageKey);
+      const state: FrequencyCapState = stored ? { ...emptyState, ...JSON.parse(stored) } : emptyState;
+
+      // Start counting again in a new session, and forget tours shown more than a day ago
+      const sessionId = this.getSessionId() ?? null;
+      if (state.sessionId !== sessionId) {
+        state.sessionId = sessionId;
+        state.sessionCount = 0;
+      }
+      state.shownAt = state.shownAt.filter(shownAt => Date.now() - shownAt < DAY_IN_MS);
+
+      return state;
     } catch (error) {
-      // Could be QuotaExceededError or other storage issues
-      this.log('error', 'Failed to save tour state to localStorage:', error);
+      this.log('warn', 'Failed to parse posthog_tours_frequency from storage:', error);
+      this.state.removeItem(this.frequencyStorageKey);
+      return emptyState;
     }
   }
 
-  private checkVisibility(tourId: string, element: Element): Promise<boolean> {
-    return new Promise((resolve) => {
-      // If the element is already in the viewport, resolve immediately
-      const rect = element.getBoundingClientRect();
-      const isInViewport = (
-        rect.top >= 0 &&
-        rect.left >= 0 &&
-        rect.bottom <= (window.innerHeight || document.documentElement.clientHeight) &&
-        rect.right <= (window.innerWidth || document.documentElement.clientWidth)
-      );
-
-      if (isInViewport) {
-        resolve(true);
-        return;
+  private saveFrequencyCapState(state: FrequencyCapState): void {
+    this.state.setItem(this.frequencyStorageKey, JSON.stringify(state), 'Failed to save tour frequency state to storage:');
+  }
+
+  private recordTourShown(): void {
+    const state = this.getFrequencyCapState();
+    state.sessionCount += 1;
+    state.shownAt.push(Date.now());
+    this.saveFrequencyCapState(state);
+  }
+
+  private forgetTourShown(): void {
+    const state = this.getFrequencyCapState();
+    state.sessionCount = Math.max(state.sessionCount - 1, 0);
+    state.shownAt.pop();
+    this.saveFrequencyCapState(state);
+  }
+
+  private recordTourEnded(): void {
+    const state = this.getFrequencyCapState();
+    state.lastEndedAt = Date.now();
+    this.saveFrequencyCapState(state);
+  }
+
+  private getFrequencyCapReason(): TourBlockedReason | null {
+    const { maxToursPerSession, maxToursPerDay, minMinutesBetweenTours } = this.frequencyCap;
+    if (maxToursPerSession === undefined && maxToursPerDay === undefined && minMinutesBetweenTours === undefined) {
+      return null;
+    }
+
+    const state = this.getFrequencyCapState();
+
+    if (maxToursPerSession !== undefined && state.sessionCount >= maxToursPerSession) {
+      return 'session_limit';
+    }
+
+    if (maxToursPerDay !== undefined && state.shownAt.length >= maxToursPerDay) {
+      return 'daily_limit';
+    }
+
+    if (minMinutesBetweenTours !== undefined && state.lastEndedAt !== null) {
+      const remaining = state.lastEndedAt + minMinutesBetweenTours * MINUTE_IN_MS - Date.now();
+      if (remaining > 0) {
+        this.scheduleFrequencyCapRecheck(remaining);
+        return 'min_gap';
       }
+    }
 
-      // Otherwise, set up an IntersectionObserver to wait for it to become visible
-      const observer = new IntersectionObserver((entries) => {
-        if (entries[0].isIntersecting) {
-          observer.disconnect();
-          this.intersectionObservers.delete(tourId);
-          resolve(true);
-        }
-      }, { threshold: 0.1 }); // Element is visible when at least 10% is in view
+    return null;
+  }
 
-      observer.observe(element);
-      this.intersectionObservers.set(tourId, observer);
-
-      // Set a timeout to prevent waiting forever if the element never becomes visible
-      setTimeout(() => {
-        if (this.intersectionObservers.has(tourId)) {
-          observer.disconnect();
-          this.intersectionObservers.delete(tourId);
-          resolve(false);
-        }
-      }, 30000); // 30 second timeout
+  private scheduleFrequencyCapRecheck(delay: number): void {
+    if (this.frequencyCapTimer !== null) {
+      return;
+    }
+
+    // Look for eligible tours again once the gap has passed
+    this.frequencyCapTimer = setTimeout(() => {
+      this.frequencyCapTimer = null;
+      if (this.activeTourId === null && !this.paused) {
+        this.checkAllTours();
+      }
+    }, delay);
+  }
+
+  // Null when the tour shows without checking its target's visibility
+  private getVisibilityOptions(tourId: string): Required<VisibilityOptions> | null {
+    const tourOptions = this.resolveTour(tourId)?.visibility;
+    if (tourOptions === false || (tourOptions === undefined && this.visibilityOptions === null)) {
+      return null;
+    }
+    return { ...DEFAULT_VISIBILITY_OPTIONS, ...this.visibilityOptions, ...tourOptions };
+  }
+
+  private checkVisibility(tourId: string, element: Element, options: Required<VisibilityOptions>): Promise<boolean> {
+    return new Promise((resolve) => {
+      // A tour only waits on one element at a time
+      this.visibilityChecks.get(tourId)?.();
+
+      let pending = true;
+      const cancel = waitForVisibility(element, options, (isVisible) => {
+        pending = false;
+        this.visibilityChecks.delete(tourId);
+        resolve(isVisible);
+      });
+      if (pending) {
+        this.visibilityChecks.set(tourId, cancel);
+      }
     });
   }
 
-  private hasTourBeenSeen(tourId: string): boolean {
-    const key = `${this.userPropertyPrefix}${tourId}`;
+  public getTourState(tourId: string): TourStateRecord | null {
+    return this.state.getTourState(tourId);
+  }
+
+  private isBlockedByState(tourId: string, state: TourStateRecord | null): boolean {
+    if (!state) {
+      return false;
+    }
+
+    if (state.status === 'snoozed') {
+      return this.isSnoozeActive(tourId, state);
+    }
+
+    // Dismissed tours can come back once the configured cooldown has passed
+    if (state.status === 'dismissed' && this.reshowDismissedAfterHours !== undefined) {
+      return Date.now() - state.timestamp < this.reshowDismissedAfterHours * HOUR_IN_MS;
+    }
+
+    return true;
+  }
+
+  private isSnoozeActive(tourId: string, state: TourStateRecord): boolean {
+    // The snooze ends as soon as either limit is reached
+    if (state.snoozedUntil !== undefined && Date.now() >= state.snoozedUntil) {
+      return false;
+    }
+
+    if (state.snoozeSessions !== undefined) {
+      const sessionId = this.getSessionId();
+      let elapsed = state.snoozeSessionsElapsed || 0;
+
+      // Count every new session we see while the tour is snoozed
+      if (sessionId && sessionId !== state.snoozeSessionId) {
+        elapsed += 1;
+        this.saveTourState(tourId, {
+          ...state,
+          snoozeSessionsElapsed: elapsed,
+          snoozeSessionId: sessionId
+        });
+      }
+
+      if (elapsed >= state.snoozeSessions) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private getSessionId(): string | undefined {
+    if (typeof this.posthog.get_session_id !== 'function') {
+      return undefined;
+    }
+    return this.posthog.get_session_id() || undefined;
+  }
+
+  private saveTourState(tourId: string, record: TourStateRecord): void {
+    this.state.setTourState(tourId, record);
+    this.tabs?.publishState(tourId, record, this.distinctId);
+    this.invalidateSnapshot();
+  }
+
+  // Another tab completed, dismissed or snoozed a tour
+  private handleRemoteTourState(tourId: string, record: TourStateRecord, distinctId: string | null): void {
+    if (this.holdUntilStateLoaded(() => this.handleRemoteTourState(tourId, record, distinctId))) {
+      return;
+    }
+
+    // The other tab may not have caught up with an identity change yet
+    if (distinctId !== this.distinctId || !this.tours[tourId]) {
+      return;
+    }
 
-    // Check localStorage first (always up-to-date)
-    const seenTours = this.getSeenToursFromStorage();
-    if (seenTours[key]) {
-      return true;
+    this.log('log', `PostHog Tours: Tour ${tourId} was ${record.status} in another tab`);
+    this.state.applyTourState(tourId, record);
+    this.removeFromQueue(tourId);
+    this.emit('stateSynced', { tourId, record, source: 'tab' });
+
+    if (this.activeTourId === tourId) {
+      this.endActiveTour();
+      this.startNextTour();
+    }
+  }
+
+  // Another tab was already showing the tour we just started
+  private handleClaimLost(tourId: string): void {
+    if (this.activeTourId !== tourId) {
+      return;
+    }
+
+    this.log('log', `PostHog Tours: Tour ${tourId} is already showing in another tab`);
+
+    // The user has barely seen it here, so it doesn't count towards the frequency caps
+    if (this.activeTourCounted) {
+      this.forgetTourShown();
     }
+    this.endActiveTour(false);
+    this.emit('hidden', { tourId, reason: 'active_in_other_tab' });
+    this.startNextTour();
+  }
 
-    // Check PostHog's properties (might have data from other sessions/devices)
-    const userProperties = this.posthog.get_property('$stored_person_properties') || {};
-    const seenInPostHog = !!userProperties[key];
+  // The tour was closed in another tab without being completed or dismissed, e.g. because the tab was closed
+  private handleClaimReleased(tourId: string): void {
+    if (this.featureFlagsLoaded && this.activeTourId === null && this.tours[tourId]) {
+      this.checkTourEligibility(tourId);
+    }
+  }
 
-    // If PostHog has it but localStorage doesn't, sync localStorage
-    if (seenInPostHog) {
-      seenTours[key] = true;
-      this.saveSeenToursToStorage(seenTours);
+  private getLastStep(tourId: string, status: TourStatus): number {
+    if (this.activeTourId === tourId) {
+      return this.activeStepIndex;
     }
 
-    return seenInPostHog;
+    // Without an active step, assume a completed tour was seen to the end
+    const tour = this.resolveTour(tourId);
+    const stepCount = tour ? this.getTourSteps(tour).length : 0;
+    return status === 'completed' ? Math.max(stepCount - 1, 0) : 0;
   }
 
   public markTourAsSeen(tourId: string): void {
-    const key = `${this.userPropertyPrefix}${tourId}`;
-    const properties: Record<string, any> = {};
-    properties[key] = true;
+    if (this.warnIfDestroyed('markTourAsSeen') || this.holdUntilStateLoaded(() => this.markTourAsSeen(tourId))) {
+      return;
+    }
+    this.endTour(tourId, 'completed');
+  }
+
+  public snoozeTour(tourId: string, duration: SnoozeDuration): void {
+    if (this.warnIfDestroyed('snoozeTour') || this.holdUntilStateLoaded(() => this.snoozeTour(tourId, duration))) {
+      return;
+    }
+    if (duration.hours === undefined && duration.sessions === undefined) {
+      this.log('warn', `PostHog Tours: snoozeTour(${tourId}) needs a duration in hours or sessions.`);
+      return;
+    }
+
+    const stepIndex = this.activeTourId === tourId ? this.activeStepIndex : undefined;
+    const record: TourStateRecord = {
+      status: 'snoozed',
+      timestamp: Date.now(),
+      lastStep: this.getLastStep(tourId, 'snoozed')
+    };
 
-    // 1. Update PostHog (eventual consistency)
-    this.posthog.people.set(properties);
+    if (duration.hours !== undefined) {
+      record.snoozedUntil = Date.now() + duration.hours * HOUR_IN_MS;
+    }
 
-    // 2. Also update localStorage immediately (immediate consistency)
-    const seenTours = this.getSeenToursFromStorage();
-    seenTours[key] = true;
-    this.saveSeenToursToStorage(seenTours);
+    if (duration.sessions !== undefined) {
+      record.snoozeSessions = duration.sessions;
+      record.snoozeSessionsElapsed = 0;
+      record.snoozeSessionId = this.getSessionId();
+    }
 
-    // Also capture an event for analytics purposes
-    this.posthog.capture('tour_seen', {
-      tour_id: tourId,
-      tour_name: this.tours[tourId]?.name
+    this.saveTourState(tourId, record);
+
+    this.captureEvent('tour_snoozed', {
+      ...this.getEventProperties(tourId, stepIndex),
+      snooze_hours: duration.hours,
+      snooze_sessions: duration.sessions
     });
 
-    // Clear active tour and check for other eligible tours
-    this.activeTourId = null;
-    this.checkAllTours();
+    // Clear active tour and move on to the next tour
+    this.removeFromQueue(tourId);
+    if (this.activeTourId === tourId) {
+      this.endActiveTour();
+    }
+    this.startNextTour();
+  }
+
+  private endTour(tourId: string, status: 'completed' | 'dismissed'): void {
+    const stepIndex = this.activeTourId === tourId ? this.activeStepIndex : undefined;
+
+    this.saveTourState(tourId, {
+      status,
+      timestamp: Date.now(),
+      lastStep: this.getLastStep(tourId, status)
+    });
+
+    const event = status === 'dismissed' ? 'tour_dismissed' : 'tour_completed';
+    this.captureEvent(event, this.getEventProperties(tourId, stepIndex));
+
+    // tour_seen predates tour_completed and has always meant the tour was seen to the end
+    if (status === 'completed') {
+      this.captureEvent('tour_seen', this.getEventProperties(tourId, stepIndex));
+    }
+    this.emit(status, { tourId, stepIndex: stepIndex ?? null });
+
+    // Clear active tour and move on to the next tour
+    this.removeFromQueue(tourId);
+    if (this.activeTourId === tourId) {
+      this.endActiveTour();
+    }
+    this.startNextTour();
   }
 
   public async checkAllTours(): Promise<TourEligibilityResult[]> {
     const results: TourEligibilityResult[] = [];
-    
-    for (const tourId of Object.keys(this.tours)) {
+    if (this.warnIfDestroyed('checkAllTours')) {
+      return results;
+    }
+
+    for (const tourId of this.getTourIdsByPriority()) {
       const result = await this.checkTourEligibility(tourId);
       results.push(result);
       
@@ -292,15 +1589,29 @@ export class PostHogTours {
   }
 
   public reset(): void {
+    if (this.warnIfDestroyed('reset')) {
+      return;
+    }
+
+    this.queue = [];
+    this.invalidateSnapshot();
+    this.firedTriggers.clear();
+    this.triggerCleanups.forEach(cleanup => cleanup());
+    this.triggerCleanups.clear();
+
     // Clear all observers
     this.observers.forEach(observer => observer.disconnect());
     this.observers.clear();
     
-    this.intersectionObservers.forEach(observer => observer.disconnect());
-    this.intersectionObservers.clear();
-    
+    this.visibilityChecks.forEach(cancel => cancel());
+
     // Start monitoring again
     this.startMonitoringTours();
+
+    // The active tour's step may have been waiting for its target too
+    if (this.activeTourId !== null && !this.activeStepViewed) {
+      this.showStep(this.activeTourId, this.activeStepIndex, true);
+    }
   }
 
   public getTourConfig(flagKey: string): TourConfig | undefined {
@@ -308,22 +1619,128 @@ export class PostHogTours {
   }
   
   public async forceTour(tourId: string): Promise<boolean> {
-    const tour = this.tours[tourId];
-    if (!tour || !tour.target) {
+    if (this.stateLoading) {
+      await this.stateLoading;
+    }
+    if (this.warnIfDestroyed('forceTour')) {
+      return false;
+    }
+
+    const tour = this.resolveTour(tourId);
+    const target = tour && this.getTourTarget(tour);
+    if (!target) {
       return false;
     }
     
-    const element = document.querySelector(tour.target);
+    const element = this.findTarget(target);
     if (!element) {
       return false;
     }
     
-    const onEligible = tour.onEligible || this.defaultOnEligible;
-    if (onEligible) {
-      onEligible(element, tourId);
-      return true;
+    const hasHandler = !!(tour.onEligible || this.defaultOnEligible || tour.onStepChange || this.defaultOnStepChange);
+    if (!hasHandler) {
+      return false;
     }
-    
-    return false;
+
+    // Replace whatever tour is currently running
+    this.endActiveTour();
+    this.startTour(tourId, element, 'forced');
+    return true;
+  }
+
+  // Holds tours back, e.g. during a checkout flow. The active tour is hidden and picks up where it left off on resume().
+  public pause(): void {
+    if (this.warnIfDestroyed('pause') || this.paused) {
+      return;
+    }
+
+    this.log('log', 'PostHog Tours: Paused.');
+    this.paused = true;
+    this.invalidateSnapshot();
+
+    if (this.activeTourId !== null) {
+      this.stopWaitingForStep(this.activeTourId);
+      this.renderer?.hide();
+    }
+  }
+
+  public resume(): void {
+    if (this.warnIfDestroyed('resume') || !this.paused) {
+      return;
+    }
+
+    this.log('log', 'PostHog Tours: Resumed.');
+    this.paused = false;
+    this.invalidateSnapshot();
+
+    if (this.activeTourId !== null) {
+      this.showStep(this.activeTourId, this.activeStepIndex, true);
+    } else if (this.featureFlagsLoaded) {
+      this.startNextTour();
+    }
+  }
+
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  // Stops everything this instance does. It can't be used again afterwards, so create a new one instead.
+  public destroy(): void {
+    if (this.destroyed) {
+      return;
+    }
+
+    this.log('log', 'PostHog Tours: Destroyed.');
+    this.endActiveTour();
+    this.destroyed = true;
+    this.queue = [];
+    this.invalidateSnapshot();
+    this.firedTriggers.clear();
+
+    this.unsubscribeFromFeatureFlags?.();
+    this.unsubscribeFromNavigation?.();
+    this.unsubscribeFromEvents?.();
+    this.unsubscribeFromFeatureFlags = undefined;
+    this.unsubscribeFromNavigation = undefined;
+    this.unsubscribeFromEvents = undefined;
+
+    if (this.frequencyCapTimer !== null) {
+      clearTimeout(this.frequencyCapTimer);
+      this.frequencyCapTimer = null;
+    }
+
+    this.triggerCleanups.forEach(cleanup => cleanup());
+    this.triggerCleanups.clear();
+    this.observers.forEach(observer => observer.disconnect());
+    this.observers.clear();
+
+    // Pending eligibility checks resolve as not eligible
+    this.visibilityChecks.forEach(cancel => cancel());
+
+    this.tabs?.destroy();
+    this.tabs = null;
+    this.listeners.clear();
+    this.subscribers.clear();
+  }
+
+  public isDestroyed(): boolean {
+    return this.destroyed;
+  }
+
+  // Changes made while an async store is still loading would start from empty state and overwrite what's stored,
+  // so they're held back until it has loaded. Returns true when `callback` was held back.
+  private holdUntilStateLoaded(callback: () => void): boolean {
+    if (!this.stateLoading) {
+      return false;
+    }
+    this.heldChanges.push(callback);
+    return true;
+  }
+
+  private warnIfDestroyed(method: string): boolean {
+    if (this.destroyed) {
+      this.log('warn', `PostHog Tours: ${method}() was called after destroy() and has no effect.`);
+    }
+    return this.destroyed;
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,184 @@
+import { TourStateRecord } from './types';
+
+const CHANNEL_NAME = 'posthog_tours';
+const STORAGE_MESSAGE_KEY = 'posthog_tours_message';
+
+// Claims are renewed while a tour is showing, so a tab that closed without releasing
+// its claim stops blocking the tour after a while
+const CLAIM_TTL_MS = 10000;
+const HEARTBEAT_INTERVAL_MS = 3000;
+
+type TabMessage =
+  | { type: 'claim'; tabId: string; tourId: string; expiresAt: number }
+  | { type: 'release'; tabId: string; tourId: string }
+  | { type: 'state'; tabId: string; tourId: string; record: TourStateRecord; distinctId: string | null }
+  | { type: 'sync'; tabId: string };
+
+export interface TabCoordinatorCallbacks {
+  onStateChange: (tourId: string, record: TourStateRecord, distinctId: string | null) => void;
+  onClaimLost: (tourId: string) => void; // Another tab was already showing the tour
+  onClaimReleased: (tourId: string) => void;
+}
+
+/**
+ * Lets PostHogTours instances in other tabs of the same site know which tour is showing and
+ * when tour state changes. Uses BroadcastChannel where available, and `storage` events otherwise.
+ */
+export class TabCoordinator {
+  public readonly tabId: string;
+  private callbacks: TabCoordinatorCallbacks;
+  private channel: BroadcastChannel | null = null;
+  private useStorageEvents = false;
+  private ownClaims: Set<string> = new Set();
+  private otherClaims: Map<string, { tabId: string; expiresAt: number }> = new Map();
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+  private handleStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_MESSAGE_KEY && event.newValue) {
+      try {
+        this.handleMessage(JSON.parse(event.newValue));
+      } catch (error) {
+        // Not one of ours
+      }
+    }
+  };
+  private handlePageHide = () => {
+    this.ownClaims.forEach(tourId => this.post({ type: 'release', tabId: this.tabId, tourId }));
+  };
+
+  // `storageFallback` should only be set when localStorage is known to work
+  constructor(callbacks: TabCoordinatorCallbacks, storageFallback: boolean) {
+    // Ids sort by when the tab was opened, so the tab that has had a tour open longest keeps it
+    this.tabId = `${Date.now().toString(36).padStart(9, '0')}-${Math.random().toString(36).slice(2)}`;
+    this.callbacks = callbacks;
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = (event: MessageEvent) => this.handleMessage(event.data);
+
+      // Ask tabs that are already open which tours they're showing. Over storage events, tabs
+      // find out when they next renew their claims instead of writing to storage on every page load.
+      this.post({ type: 'sync', tabId: this.tabId });
+    } else if (storageFallback) {
+      this.useStorageEvents = true;
+      window.addEventListener('storage', this.handleStorage);
+    }
+    window.addEventListener('pagehide', this.handlePageHide);
+  }
+
+  private post(message: TabMessage): void {
+    if (this.channel) {
+      this.channel.postMessage(message);
+      return;
+    }
+    if (!this.useStorageEvents) {
+      return;
+    }
+
+    try {
+      // Only other tabs get the storage event, and only when the value changes
+      localStorage.setItem(STORAGE_MESSAGE_KEY, JSON.stringify({ ...message, nonce: Math.random() }));
+      localStorage.removeItem(STORAGE_MESSAGE_KEY);
+    } catch (error) {
+      // Without storage there's no way to reach other tabs
+    }
+  }
+
+  private handleMessage(message: TabMessage): void {
+    if (!message || message.tabId === this.tabId) {
+      return;
+    }
+
+    switch (message.type) {
+      case 'claim':
+        this.otherClaims.set(message.tourId, { tabId: message.tabId, expiresAt: message.expiresAt });
+        if (this.ownClaims.has(message.tourId)) {
+          this.resolveConflict(message.tourId, message.tabId);
+        }
+        break;
+      case 'release':
+        if (this.otherClaims.get(message.tourId)?.tabId === message.tabId) {
+          this.otherClaims.delete(message.tourId);
+          this.callbacks.onClaimReleased(message.tourId);
+        }
+        break;
+      case 'state':
+        this.callbacks.onStateChange(message.tourId, message.record, message.distinctId);
+        break;
+      case 'sync':
+        this.renewClaims();
+        break;
+    }
+  }
+
+  private resolveConflict(tourId: string, otherTabId: string): void {
+    // Both tabs are showing the tour, so the older tab keeps it
+    if (otherTabId < this.tabId) {
+      this.ownClaims.delete(tourId);
+      this.stopHeartbeatIfIdle();
+      this.callbacks.onClaimLost(tourId);
+    } else {
+      this.renewClaims();
+    }
+  }
+
+  public isClaimedElsewhere(tourId: string): boolean {
+    const claim = this.otherClaims.get(tourId);
+    if (!claim) {
+      return false;
+    }
+
+    if (claim.expiresAt <= Date.now()) {
+      this.otherClaims.delete(tourId);
+      return false;
+    }
+
+    return true;
+  }
+
+  public claim(tourId: string): void {
+    this.ownClaims.add(tourId);
+    this.renewClaims();
+
+    if (this.heartbeat === null) {
+      this.heartbeat = setInterval(() => this.renewClaims(), HEARTBEAT_INTERVAL_MS);
+    }
+  }
+
+  public release(tourId: string): void {
+    if (!this.ownClaims.delete(tourId)) {
+      return;
+    }
+
+    this.post({ type: 'release', tabId: this.tabId, tourId });
+    this.stopHeartbeatIfIdle();
+  }
+
+  public publishState(tourId: string, record: TourStateRecord, distinctId: string | null): void {
+    this.post({ type: 'state', tabId: this.tabId, tourId, record, distinctId });
+  }
+
+  private renewClaims(): void {
+    const expiresAt = Date.now() + CLAIM_TTL_MS;
+    this.ownClaims.forEach(tourId => this.post({ type: 'claim', tabId: this.tabId, tourId, expiresAt }));
+  }
+
+  private stopHeartbeatIfIdle(): void {
+    if (this.ownClaims.size === 0 && this.heartbeat !== null) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
+
+  public destroy(): void {
+    this.handlePageHide();
+    this.ownClaims.clear();
+    this.stopHeartbeatIfIdle();
+
+    if (this.channel) {
+      this.channel.close();
+      this.channel = null;
+    }
+    window.removeEventListener('storage', this.handleStorage);
+    window.removeEventListener('pagehide', this.handlePageHide);
+  }
+}
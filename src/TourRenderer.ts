@@ -0,0 +1,348 @@
+import { getTargetRect } from './targets';
+import {
+  StepRenderContext,
+  StepRenderer,
+  StepRendererControls,
+  TourPlacement,
+  TourStep
+} from './types';
+
+export interface TourRendererTheme {
+  background: string;
+  textColor: string;
+  primaryColor: string;
+  primaryTextColor: string;
+  overlayColor: string;
+  borderRadius: string;
+  fontFamily: string;
+  zIndex: string;
+}
+
+export interface TourRendererLabels {
+  next: string;
+  back: string;
+  done: string;
+  close: string;
+  snooze: string;
+}
+
+export interface TourRendererOptions {
+  theme?: Partial<TourRendererTheme>; // Overrides for the --posthog-tours-* CSS variables
+  labels?: Partial<TourRendererLabels>;
+  spotlight?: boolean; // Dim the page around the target element
+  spotlightPadding?: number;
+  offset?: number; // Distance in pixels between the target and the popover
+  container?: HTMLElement;
+}
+
+const STYLE_ELEMENT_ID = 'posthog-tours-styles';
+
+const THEME_VARIABLES: Record<keyof TourRendererTheme, string> = {
+  background: '--posthog-tours-background',
+  textColor: '--posthog-tours-text-color',
+  primaryColor: '--posthog-tours-primary-color',
+  primaryTextColor: '--posthog-tours-primary-text-color',
+  overlayColor: '--posthog-tours-overlay-color',
+  borderRadius: '--posthog-tours-border-radius',
+  fontFamily: '--posthog-tours-font-family',
+  zIndex: '--posthog-tours-z-index'
+};
+
+const DEFAULT_LABELS: TourRendererLabels = {
+  next: 'Next',
+  back: 'Back',
+  done: 'Done',
+  close: 'Close',
+  snooze: 'Remind me later'
+};
+
+const ARROW_SIZE = 8;
+
+const STYLES = `
+.posthog-tours-root {
+  --posthog-tours-background: #ffffff;
+  --posthog-tours-text-color: #1d1f27;
+  --posthog-tours-primary-color: #1d4aff;
+  --posthog-tours-primary-text-color: #ffffff;
+  --posthog-tours-overlay-color: rgba(0, 0, 0, 0.5);
+  --posthog-tours-border-radius: 6px;
+  --posthog-tours-font-family: inherit;
+  --posthog-tours-z-index: 2147483000;
+}
+.posthog-tours-spotlight {
+  position: fixed;
+  z-index: var(--posthog-tours-z-index);
+  border-radius: var(--posthog-tours-border-radius);
+  box-shadow: 0 0 0 9999px var(--posthog-tours-overlay-color);
+  pointer-events: none;
+}
+.posthog-tours-popover {
+  position: fixed;
+  z-index: calc(var(--posthog-tours-z-index) + 1);
+  box-sizing: border-box;
+  max-width: 320px;
+  padding: 16px;
+  background: var(--posthog-tours-background);
+  color: var(--posthog-tours-text-color);
+  border-radius: var(--posthog-tours-border-radius);
+  font-family: var(--posthog-tours-font-family);
+  font-size: 14px;
+  line-height: 1.4;
+  box-shadow: 0 4px 16px rgba(0, 0, 0, 0.2);
+}
+.posthog-tours-arrow {
+  position: absolute;
+  width: ${ARROW_SIZE * 2}px;
+  height: ${ARROW_SIZE * 2}px;
+  background: var(--posthog-tours-background);
+  transform: rotate(45deg);
+}
+.posthog-tours-popover--bottom .posthog-tours-arrow { top: -${ARROW_SIZE}px; left: calc(50% - ${ARROW_SIZE}px); }
+.posthog-tours-popover--top .posthog-tours-arrow { bottom: -${ARROW_SIZE}px; left: calc(50% - ${ARROW_SIZE}px); }
+.posthog-tours-popover--right .posthog-tours-arrow { left: -${ARROW_SIZE}px; top: calc(50% - ${ARROW_SIZE}px); }
+.posthog-tours-popover--left .posthog-tours-arrow { right: -${ARROW_SIZE}px; top: calc(50% - ${ARROW_SIZE}px); }
+.posthog-tours-title { margin: 0 24px 8px 0; font-size: 16px; font-weight: 600; }
+.posthog-tours-content { margin: 0 0 16px; }
+.posthog-tours-close {
+  position: absolute;
+  top: 8px;
+  right: 8px;
+  border: none;
+  background: transparent;
+  color: inherit;
+  font-size: 18px;
+  line-height: 1;
+  cursor: pointer;
+}
+.posthog-tours-footer { display: flex; align-items: center; gap: 8px; }
+.posthog-tours-progress { flex: 1; opacity: 0.7; font-size: 12px; }
+.posthog-tours-button {
+  padding: 6px 12px;
+  border: 1px solid var(--posthog-tours-primary-color);
+  border-radius: var(--posthog-tours-border-radius);
+  background: transparent;
+  color: var(--posthog-tours-primary-color);
+  font: inherit;
+  cursor: pointer;
+}
+.posthog-tours-button--primary {
+  background: var(--posthog-tours-primary-color);
+  color: var(--posthog-tours-primary-text-color);
+}
+`;
+
+export class TourRenderer implements StepRenderer {
+  private theme: Partial<TourRendererTheme>;
+  private labels: TourRendererLabels;
+  private spotlight: boolean;
+  private spotlightPadding: number;
+  private offset: number;
+  private container?: HTMLElement;
+  private root: HTMLElement | null = null;
+  private target: Element | null = null;
+  private targetWindow: Window | null = null; // Set when the target is inside an iframe
+  private placement: TourPlacement = 'bottom';
+  private controls: StepRendererControls | null = null;
+
+  constructor(options: TourRendererOptions = {}) {
+    this.theme = options.theme || {};
+    this.labels = { ...DEFAULT_LABELS, ...options.labels };
+    this.spotlight = options.spotlight ?? true;
+    this.spotlightPadding = options.spotlightPadding ?? 4;
+    this.offset = options.offset ?? 12;
+    this.container = options.container;
+  }
+
+  public show(element: Element, step: TourStep, context: StepRenderContext, controls: StepRendererControls): void {
+    this.hide();
+    this.injectStyles();
+
+    this.target = element;
+    this.placement = step.placement || 'bottom';
+    this.controls = controls;
+
+    const root = document.createElement('div');
+    root.className = 'posthog-tours-root';
+    root.setAttribute('data-posthog-tour', context.tourId);
+    Object.entries(this.theme).forEach(([key, value]) => {
+      if (value !== undefined) {
+        root.style.setProperty(THEME_VARIABLES[key as keyof TourRendererTheme], value);
+      }
+    });
+
+    if (this.spotlight) {
+      const spotlight = document.createElement('div');
+      spotlight.className = 'posthog-tours-spotlight';
+      root.appendChild(spotlight);
+    }
+
+    root.appendChild(this.createPopover(step, context, controls));
+    (this.container || document.body).appendChild(root);
+    this.root = root;
+
+    if (typeof element.scrollIntoView === 'function') {
+      element.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+    }
+
+    this.position();
+    window.addEventListener('resize', this.position);
+    window.addEventListener('scroll', this.position, true);
+    document.addEventListener('keydown', this.handleKeyDown);
+
+    const targetWindow = element.ownerDocument.defaultView;
+    if (targetWindow && targetWindow !== window) {
+      targetWindow.addEventListener('scroll', this.position, true);
+      this.targetWindow = targetWindow;
+    }
+  }
+
+  public hide(): void {
+    window.removeEventListener('resize', this.position);
+    window.removeEventListener('scroll', this.position, true);
+    document.removeEventListener('keydown', this.handleKeyDown);
+    this.targetWindow?.removeEventListener('scroll', this.position, true);
+    this.targetWindow = null;
+
+    this.root?.remove();
+    this.root = null;
+    this.target = null;
+    this.controls = null;
+  }
+
+  private createPopover(step: TourStep, context: StepRenderContext, controls: StepRendererControls): HTMLElement {
+    const popover = document.createElement('div');
+    popover.className = `posthog-tours-popover posthog-tours-popover--${this.placement}`;
+    popover.setAttribute('role', 'dialog');
+
+    const arrow = document.createElement('div');
+    arrow.className = 'posthog-tours-arrow';
+    popover.appendChild(arrow);
+
+    const close = this.createButton('posthog-tours-close', '×', controls.dismiss);
+    close.setAttribute('aria-label', this.labels.close);
+    popover.appendChild(close);
+
+    const title = step.title || context.tourName;
+    if (title) {
+      const heading = document.createElement('h3');
+      heading.className = 'posthog-tours-title';
+      heading.textContent = title;
+      popover.appendChild(heading);
+    }
+
+    if (step.content) {
+      const content = document.createElement('p');
+      content.className = 'posthog-tours-content';
+      content.textContent = step.content;
+      popover.appendChild(content);
+    }
+
+    const footer = document.createElement('div');
+    footer.className = 'posthog-tours-footer';
+
+    const progress = document.createElement('span');
+    progress.className = 'posthog-tours-progress';
+    if (context.stepCount > 1) {
+      progress.textContent = `${context.stepIndex + 1} of ${context.stepCount}`;
+    }
+    footer.appendChild(progress);
+
+    if (controls.snooze) {
+      footer.appendChild(this.createButton('posthog-tours-button posthog-tours-snooze', this.labels.snooze, controls.snooze));
+    }
+
+    if (context.stepIndex > 0) {
+      footer.appendChild(this.createButton('posthog-tours-button posthog-tours-back', this.labels.back, controls.previous));
+    }
+
+    const isLastStep = context.stepIndex >= context.stepCount - 1;
+    footer.appendChild(this.createButton(
+      'posthog-tours-button posthog-tours-button--primary posthog-tours-next',
+      isLastStep ? this.labels.done : this.labels.next,
+      controls.next
+    ));
+
+    popover.appendChild(footer);
+    return popover;
+  }
+
+  private createButton(className: string, label: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = className;
+    button.textContent = label;
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  private injectStyles(): void {
+    if (document.getElementById(STYLE_ELEMENT_ID)) {
+      return;
+    }
+
+    const style = document.createElement('style');
+    style.id = STYLE_ELEMENT_ID;
+    style.textContent = STYLES;
+    document.head.appendChild(style);
+  }
+
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    if (event.key === 'Escape') {
+      this.controls?.dismiss();
+    }
+  };
+
+  private position = (): void => {
+    if (!this.root || !this.target) {
+      return;
+    }
+
+    const rect = getTargetRect(this.target);
+
+    const spotlight = this.root.querySelector<HTMLElement>('.posthog-tours-spotlight');
+    if (spotlight) {
+      const padding = this.spotlightPadding;
+      spotlight.style.top = `${rect.top - padding}px`;
+      spotlight.style.left = `${rect.left - padding}px`;
+      spotlight.style.width = `${rect.width + padding * 2}px`;
+      spotlight.style.height = `${rect.height + padding * 2}px`;
+    }
+
+    const popover = this.root.querySelector<HTMLElement>('.posthog-tours-popover');
+    if (!popover) {
+      return;
+    }
+
+    const popoverRect = popover.getBoundingClientRect();
+    const offset = this.offset + ARROW_SIZE;
+    let top: number;
+    let left: number;
+
+    switch (this.placement) {
+      case 'top':
+        top = rect.top - popoverRect.height - offset;
+        left = rect.left + rect.width / 2 - popoverRect.width / 2;
+        break;
+      case 'left':
+        top = rect.top + rect.height / 2 - popoverRect.height / 2;
+        left = rect.left - popoverRect.width - offset;
+        break;
+      case 'right':
+        top = rect.top + rect.height / 2 - popoverRect.height / 2;
+        left = rect.right + offset;
+        break;
+      default:
+        top = rect.bottom + offset;
+        left = rect.left + rect.width / 2 - popoverRect.width / 2;
+    }
+
+    // Keep the popover inside the viewport
+    const viewportWidth = window.innerWidth || document.documentElement.clientWidth;
+    const viewportHeight = window.innerHeight || document.documentElement.clientHeight;
+    left = Math.max(0, Math.min(left, viewportWidth - popoverRect.width));
+    top = Math.max(0, Math.min(top, viewportHeight - popoverRect.height));
+
+    popover.style.top = `${top}px`;
+    popover.style.left = `${left}px`;
+  };
+}
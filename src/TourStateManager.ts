@@ -0,0 +1,252 @@
+import posthog from 'posthog-js';
+import { TourStateRecord, TourStateStore } from './types';
+
+type Logger = (level: 'log' | 'warn' | 'error', ...args: any[]) => void;
+type SyncListener = (tourId: string, record: TourStateRecord) => void;
+
+const SEEN_TOURS_KEY = 'posthog_tours_seen';
+
+function isPromise<T>(value: T | Promise<T>): value is Promise<T> {
+  return !!value && typeof (value as Promise<T>).then === 'function';
+}
+
+/**
+ * Keeps tour state in memory so it can be read synchronously, and writes every change through
+ * to the store and, for seen state, to PostHog person properties. Seen state is stored per
+ * distinct_id, so people sharing a browser don't share seen tours.
+ */
+export class TourStateManager {
+  private store: TourStateStore;
+  private posthog: typeof posthog;
+  private userPropertyPrefix: string;
+  private log: Logger;
+  private onSync: SyncListener;
+  private distinctId: string | null;
+  private values: Map<string, string | null> = new Map();
+  private seenTours: Record<string, TourStateRecord> = {};
+
+  constructor(
+    store: TourStateStore,
+    posthogInstance: typeof posthog,
+    userPropertyPrefix: string,
+    distinctId: string | null,
+    log: Logger,
+    onSync: SyncListener = () => undefined
+  ) {
+    this.store = store;
+    this.posthog = posthogInstance;
+    this.userPropertyPrefix = userPropertyPrefix;
+    this.distinctId = distinctId;
+    this.log = log;
+    this.onSync = onSync;
+  }
+
+  private getSeenToursKey(): string {
+    return this.distinctId ? `${SEEN_TOURS_KEY}:${this.distinctId}` : SEEN_TOURS_KEY;
+  }
+
+  // Reads `keys` and the seen state into memory. Only returns a promise when the store is async.
+  public load(keys: string[]): void | Promise<void> {
+    const seenToursKey = this.getSeenToursKey();
+    const allKeys = [seenToursKey, ...keys];
+
+    // State written before it was stored per distinct_id belongs to whoever uses the browser first
+    if (seenToursKey !== SEEN_TOURS_KEY) {
+      allKeys.push(SEEN_TOURS_KEY);
+    }
+
+    const values = allKeys.map(key => this.read(key));
+
+    const hydrate = (loaded: Array<string | null>) => {
+      allKeys.forEach((key, index) => this.values.set(key, loaded[index]));
+
+      const legacyValue = this.getItem(SEEN_TOURS_KEY);
+      if (seenToursKey !== SEEN_TOURS_KEY && legacyValue !== null) {
+        if (this.getItem(seenToursKey) === null) {
+          this.setItem(seenToursKey, legacyValue);
+        }
+        this.removeItem(SEEN_TOURS_KEY);
+      }
+
+      this.loadSeenTours();
+    };
+
+    if (values.some(isPromise)) {
+      return Promise.all(values).then(hydrate);
+    }
+    hydrate(values as Array<string | null>);
+  }
+
+  private read(key: string): string | null | Promise<string | null> {
+    try {
+      const value = this.store.get(key);
+      return isPromise(value)
+        ? value.catch(error => {
+          this.log('error', `Failed to read ${key} from storage:`, error);
+          return null;
+        })
+        : value;
+    } catch (error) {
+      this.log('error', `Failed to read ${key} from storage:`, error);
+      return null;
+    }
+  }
+
+  public getItem(key: string): string | null {
+    return this.values.get(key) ?? null;
+  }
+
+  public setItem(key: string, value: string, errorMessage = `Failed to save ${key} to storage:`): void {
+    this.values.set(key, value);
+    this.write(() => this.store.set(key, value), errorMessage);
+  }
+
+  public removeItem(key: string): void {
+    this.values.set(key, null);
+    this.write(() => this.store.clear(key), `Failed to clear ${key} from storage:`);
+  }
+
+  private write(operation: () => void | Promise<void>, errorMessage: string): void {
+    try {
+      const result = operation();
+      if (isPromise(result)) {
+        result.catch(error => this.log('error', errorMessage, error));
+      }
+    } catch (error) {
+      // Could be QuotaExceededError or other storage issues
+      this.log('error', errorMessage, error);
+    }
+  }
+
+  private toTourStateRecord(value: unknown): TourStateRecord | null {
+    // Older versions stored a bare `true` for every seen tour
+    if (value === true) {
+      return { status: 'completed', timestamp: 0, lastStep: 0 };
+    }
+
+    if (value && typeof value === 'object' && typeof (value as TourStateRecord).status === 'string') {
+      return value as TourStateRecord;
+    }
+
+    return null;
+  }
+
+  private getPersonProperties(): Record<string, any> {
+    return this.posthog.get_property('$stored_person_properties') || {};
+  }
+
+  /**
+   * Loads the seen state of another distinct_id. With `merge`, tours the previous (anonymous) user
+   * saw are kept for the new one, and the previous user's state is removed.
+   */
+  public switchIdentity(distinctId: string | null, merge: boolean): void | Promise<void> {
+    const previousKey = this.getSeenToursKey();
+    const previousTours = this.seenTours;
+
+    this.distinctId = distinctId;
+    const key = this.getSeenToursKey();
+    const value = this.read(key);
+
+    const apply = (stored: string | null) => {
+      this.values.set(key, stored);
+      this.loadSeenTours();
+
+      if (merge && previousKey !== key) {
+        Object.keys(previousTours).forEach(tourKey => {
+          if (!this.seenTours[tourKey]) {
+            this.seenTours[tourKey] = previousTours[tourKey];
+          }
+        });
+        this.saveSeenTours();
+        this.removeItem(previousKey);
+      }
+    };
+
+    if (isPromise(value)) {
+      return value.then(apply);
+    }
+    apply(value);
+  }
+
+  private loadSeenTours(): void {
+    const seenToursKey = this.getSeenToursKey();
+    const stored = this.getItem(seenToursKey);
+    this.seenTours = {};
+
+    if (stored) {
+      try {
+        const parsed = JSON.parse(stored);
+        Object.keys(parsed).forEach(key => {
+          const record = this.toTourStateRecord(parsed[key]);
+          if (record) {
+            this.seenTours[key] = record;
+          }
+        });
+      } catch (error) {
+        this.log('warn', `Failed to parse ${seenToursKey} from storage:`, error);
+        // Clear corrupted data
+        this.removeItem(seenToursKey);
+      }
+    }
+
+    // Pick up tours marked as seen in PostHog (e.g. on another device) but not in the store
+    const userProperties = this.getPersonProperties();
+    Object.keys(userProperties).forEach(key => {
+      if (key.startsWith(this.userPropertyPrefix) && !this.seenTours[key]) {
+        const record = this.toTourStateRecord(userProperties[key]);
+        if (record) {
+          this.seenTours[key] = record;
+          this.onSync(key.slice(this.userPropertyPrefix.length), record);
+        }
+      }
+    });
+
+    // Save if there were any changes, including migrated legacy entries
+    const serialized = JSON.stringify(this.seenTours);
+    if (Object.keys(this.seenTours).length > 0 && serialized !== this.getItem(seenToursKey)) {
+      this.saveSeenTours();
+    }
+  }
+
+  private saveSeenTours(): void {
+    this.setItem(this.getSeenToursKey(), JSON.stringify(this.seenTours), 'Failed to save tour state to storage:');
+  }
+
+  public getTourState(tourId: string): TourStateRecord | null {
+    const key = `${this.userPropertyPrefix}${tourId}`;
+
+    // The store is checked first (always up-to-date)
+    if (this.seenTours[key]) {
+      return this.seenTours[key];
+    }
+
+    // PostHog's properties might have data from other sessions/devices that arrived since loading
+    const record = this.toTourStateRecord(this.getPersonProperties()[key]);
+    if (record) {
+      this.seenTours[key] = record;
+      this.saveSeenTours();
+      this.onSync(tourId, record);
+    }
+
+    return record;
+  }
+
+  // Only what's already in memory, without checking PostHog
+  public peekTourState(tourId: string): TourStateRecord | null {
+    return this.seenTours[`${this.userPropertyPrefix}${tourId}`] ?? null;
+  }
+
+  public setTourState(tourId: string, record: TourStateRecord): void {
+    // 1. Update PostHog (eventual consistency)
+    this.posthog.people.set({ [`${this.userPropertyPrefix}${tourId}`]: record });
+
+    // 2. Also update the store immediately (immediate consistency)
+    this.applyTourState(tourId, record);
+  }
+
+  // Records state that PostHog already knows about, e.g. a change made in another tab
+  public applyTourState(tourId: string, record: TourStateRecord): void {
+    this.seenTours[`${this.userPropertyPrefix}${tourId}`] = record;
+    this.saveSeenTours();
+  }
+}
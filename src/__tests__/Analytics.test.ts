@@ -0,0 +1,165 @@
+import { PostHogTours } from '../PostHogTours';
+
+describe('PostHogTours - Analytics events', () => {
+  let mockPosthog: any;
+
+  const steps = [
+    { target: '#step-1', title: 'Step 1' },
+    { target: '#step-2', title: 'Step 2' },
+  ];
+
+  const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  const capturedEvents = () => mockPosthog.capture.mock.calls.map((call: any[]) => call[0]);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+
+    const userProperties: Record<string, any> = {};
+
+    mockPosthog = {
+      __loaded: true,
+      isFeatureEnabled: jest.fn().mockReturnValue(true),
+      get_property: jest.fn().mockImplementation(() => userProperties),
+      people: {
+        set: jest.fn().mockImplementation((props) => {
+          Object.assign(userProperties, props);
+        })
+      },
+      capture: jest.fn(),
+    };
+
+    document.body.innerHTML = `
+      <div id="app">
+        <div id="step-1"></div>
+        <div id="step-2"></div>
+        <div id="other"></div>
+      </div>
+    `;
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should capture tour_shown and tour_step_viewed when a tour starts', async () => {
+    new PostHogTours({
+      tours: {
+        'steps-tour': { name: 'Steps Tour', steps },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+    await flushPromises();
+
+    expect(mockPosthog.capture).toHaveBeenCalledWith('tour_shown', {
+      tour_id: 'steps-tour',
+      tour_name: 'Steps Tour',
+      step_count: 2,
+      trigger_type: 'element',
+    });
+    expect(mockPosthog.capture).toHaveBeenCalledWith('tour_step_viewed', {
+      tour_id: 'steps-tour',
+      tour_name: 'Steps Tour',
+      step_count: 2,
+      step_index: 0,
+    });
+  });
+
+  it('should capture tour_step_viewed for every step and tour_completed at the end', async () => {
+    const tours = new PostHogTours({
+      tours: {
+        'steps-tour': { name: 'Steps Tour', steps },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+    await flushPromises();
+
+    tours.next();
+    tours.next();
+
+    expect(mockPosthog.capture).toHaveBeenCalledWith('tour_step_viewed', expect.objectContaining({
+      step_index: 1,
+    }));
+    expect(mockPosthog.capture).toHaveBeenCalledWith('tour_completed', {
+      tour_id: 'steps-tour',
+      tour_name: 'Steps Tour',
+      step_count: 2,
+      step_index: 1,
+    });
+    expect(mockPosthog.capture).toHaveBeenCalledWith('tour_seen', {
+      tour_id: 'steps-tour',
+      tour_name: 'Steps Tour',
+      step_count: 2,
+      step_index: 1,
+    });
+    expect(capturedEvents()).not.toContain('tour_dismissed');
+  });
+
+  it('should capture tour_dismissed with the step index the user closed the tour on', async () => {
+    const tours = new PostHogTours({
+      tours: {
+        'steps-tour': { name: 'Steps Tour', steps },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+    await flushPromises();
+
+    tours.next();
+    tours.dismiss();
+
+    expect(mockPosthog.capture).toHaveBeenCalledWith('tour_dismissed', {
+      tour_id: 'steps-tour',
+      tour_name: 'Steps Tour',
+      step_count: 2,
+      step_index: 1,
+    });
+    expect(capturedEvents()).not.toContain('tour_completed');
+    expect(capturedEvents()).not.toContain('tour_seen');
+  });
+
+  it('should capture tour_skipped when a queued tour is no longer eligible', async () => {
+    const tours = new PostHogTours({
+      tours: {
+        'steps-tour': { name: 'Steps Tour', steps },
+        'other-tour': { name: 'Other Tour', target: '#other' },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+    await flushPromises();
+
+    document.getElementById('other')?.remove();
+    tours.dismiss();
+    await flushPromises();
+
+    expect(mockPosthog.capture).toHaveBeenCalledWith('tour_skipped', {
+      tour_id: 'other-tour',
+      tour_name: 'Other Tour',
+      step_count: 1,
+      reason: 'target_missing',
+    });
+  });
+
+  it('should not capture events that have been opted out of', async () => {
+    const tours = new PostHogTours({
+      tours: {
+        'steps-tour': { name: 'Steps Tour', steps },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+      analytics: {
+        tour_step_viewed: false,
+        tour_seen: false,
+      },
+    });
+    await flushPromises();
+
+    tours.complete();
+
+    expect(capturedEvents()).toEqual(['tour_shown', 'tour_completed']);
+  });
+});
@@ -0,0 +1,188 @@
+import { PostHogTours } from '../PostHogTours';
+
+describe('PostHogTours - Audience conditions', () => {
+  let mockPosthog: any;
+  let personProperties: Record<string, any>;
+  let eventListeners: Array<(data: { event: string }) => void>;
+
+  const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  const captureEvent = (event: string) => {
+    eventListeners.forEach(listener => listener({ event }));
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+
+    personProperties = {};
+    eventListeners = [];
+
+    mockPosthog = {
+      __loaded: true,
+      isFeatureEnabled: jest.fn().mockReturnValue(true),
+      get_session_id: jest.fn().mockReturnValue('session-1'),
+      get_property: jest.fn().mockImplementation(() => personProperties),
+      on: jest.fn().mockImplementation((_event: string, listener: (data: { event: string }) => void) => {
+        eventListeners.push(listener);
+        return () => {
+          eventListeners = eventListeners.filter(l => l !== listener);
+        };
+      }),
+      people: {
+        set: jest.fn().mockImplementation((props) => {
+          Object.assign(personProperties, props);
+        })
+      },
+      capture: jest.fn(),
+    };
+
+    document.body.innerHTML = '<div id="app"><div id="element-a"></div></div>';
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should compare person properties', async () => {
+    personProperties = { plan: 'free', projects: 3 };
+
+    const tours = new PostHogTours({
+      tours: {
+        'upgrade-tour': {
+          name: 'Upgrade',
+          target: '#element-a',
+          conditions: [
+            { type: 'person_property', property: 'plan', value: 'free' },
+            { type: 'person_property', property: 'projects', operator: 'gte', value: 5 },
+          ],
+        },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+    await flushPromises();
+
+    const blocked = await tours.checkTourEligibility('upgrade-tour');
+    expect(blocked.eligible).toBe(false);
+    expect(blocked.conditionsMet).toBe(false);
+    expect(blocked.blockedReason).toBe('condition_failed');
+    expect(blocked.failedCondition).toEqual({ type: 'person_property', property: 'projects', operator: 'gte', value: 5 });
+
+    personProperties.projects = 5;
+    const result = await tours.checkTourEligibility('upgrade-tour');
+    expect(result.eligible).toBe(true);
+    expect(result.failedCondition).toBeNull();
+  });
+
+  it('should show a tour once an event has been captured enough times this session', async () => {
+    const onEligible = jest.fn();
+
+    new PostHogTours({
+      tours: {
+        'export-tour': {
+          name: 'Export',
+          target: '#element-a',
+          conditions: [{ type: 'event', event: 'insight_viewed', minCount: 2 }],
+          onEligible,
+        },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+    await flushPromises();
+
+    expect(mockPosthog.on).toHaveBeenCalledWith('eventCaptured', expect.any(Function));
+
+    captureEvent('insight_viewed');
+    captureEvent('something_else');
+    await flushPromises();
+    expect(onEligible).not.toHaveBeenCalled();
+
+    captureEvent('insight_viewed');
+    await flushPromises();
+    expect(onEligible).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only count events from the current session', async () => {
+    const tours = new PostHogTours({
+      tours: {
+        'export-tour': {
+          name: 'Export',
+          target: '#element-a',
+          conditions: [{ type: 'event', event: 'insight_viewed' }],
+        },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+    await flushPromises();
+
+    mockPosthog.get_session_id.mockReturnValue('session-0');
+    captureEvent('insight_viewed');
+    mockPosthog.get_session_id.mockReturnValue('session-1');
+
+    const result = await tours.checkTourEligibility('export-tour');
+    expect(result.blockedReason).toBe('condition_failed');
+  });
+
+  it('should check the viewport size', async () => {
+    const originalWidth = window.innerWidth;
+    Object.defineProperty(window, 'innerWidth', { value: 500, configurable: true });
+
+    const tours = new PostHogTours({
+      tours: {
+        'desktop-tour': {
+          name: 'Desktop',
+          target: '#element-a',
+          conditions: [{ type: 'viewport', minWidth: 1024 }],
+        },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+    await flushPromises();
+
+    expect((await tours.checkTourEligibility('desktop-tour')).conditionsMet).toBe(false);
+
+    Object.defineProperty(window, 'innerWidth', { value: 1280, configurable: true });
+    expect((await tours.checkTourEligibility('desktop-tour')).conditionsMet).toBe(true);
+
+    Object.defineProperty(window, 'innerWidth', { value: originalWidth, configurable: true });
+  });
+
+  it('should await custom predicates and treat errors as failures', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+    const check = jest.fn().mockResolvedValue(false);
+
+    const tours = new PostHogTours({
+      tours: {
+        'custom-tour': {
+          name: 'Custom',
+          target: '#element-a',
+          conditions: [{ type: 'custom', name: 'has-data', check }],
+        },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+      debug: true,
+    });
+    await flushPromises();
+
+    expect(check).toHaveBeenCalledWith('custom-tour');
+    expect((await tours.checkTourEligibility('custom-tour')).eligible).toBe(false);
+
+    check.mockRejectedValue(new Error('Network error'));
+    const result = await tours.checkTourEligibility('custom-tour');
+    expect(result.blockedReason).toBe('condition_failed');
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      expect.stringContaining('Condition "has-data" for tour custom-tour threw an error'),
+      expect.any(Error)
+    );
+
+    check.mockResolvedValue(true);
+    expect((await tours.checkTourEligibility('custom-tour')).eligible).toBe(true);
+
+    consoleErrorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,216 @@
+import { PostHogTours } from '../PostHogTours';
+
+// jsdom has no BroadcastChannel, so channels with the same name share an in-memory bus
+class MockBroadcastChannel {
+  static channels: MockBroadcastChannel[] = [];
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+
+  constructor(public name: string) {
+    MockBroadcastChannel.channels.push(this);
+  }
+
+  postMessage(data: unknown): void {
+    const message = JSON.parse(JSON.stringify(data));
+    MockBroadcastChannel.channels
+      .filter(channel => channel !== this && channel.name === this.name)
+      .forEach(channel => setTimeout(() => channel.onmessage?.({ data: message }), 0));
+  }
+
+  close(): void {
+    MockBroadcastChannel.channels = MockBroadcastChannel.channels.filter(channel => channel !== this);
+  }
+}
+
+describe('PostHogTours - Cross-tab coordination', () => {
+  let mockPosthog: any;
+
+  const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+    MockBroadcastChannel.channels = [];
+    (window as any).BroadcastChannel = MockBroadcastChannel;
+
+    const userProperties: Record<string, any> = {};
+
+    mockPosthog = {
+      __loaded: true,
+      isFeatureEnabled: jest.fn().mockReturnValue(true),
+      get_property: jest.fn().mockImplementation(() => userProperties),
+      people: {
+        set: jest.fn().mockImplementation((props) => {
+          Object.assign(userProperties, props);
+        })
+      },
+      capture: jest.fn(),
+    };
+
+    document.body.innerHTML = '<div id="app"><div id="element-a"></div><div id="element-b"></div></div>';
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+    delete (window as any).BroadcastChannel;
+  });
+
+  // Each instance stands in for a tab; they share localStorage like tabs of the same site do
+  const openTab = (options = {}) => new PostHogTours({
+    tours: {
+      'tour-a': { name: 'Tour A', target: '#element-a', priority: 1 },
+      'tour-b': { name: 'Tour B', target: '#element-b' },
+    },
+    posthogInstance: mockPosthog,
+    checkElementVisibility: false,
+    ...options,
+  });
+
+  it('should not show a tour that is open in another tab', async () => {
+    const firstTab = openTab();
+    await flushPromises();
+    expect(firstTab.getActiveTour()?.tourId).toBe('tour-a');
+
+    const secondTab = openTab();
+    await flushPromises();
+    await flushPromises();
+
+    // The second tab moves on to the next tour instead
+    expect(secondTab.getActiveTour()?.tourId).toBe('tour-b');
+    expect(firstTab.getActiveTour()?.tourId).toBe('tour-a');
+
+    const result = await secondTab.checkTourEligibility('tour-a');
+    expect(result.blockedReason).toBe('active_in_other_tab');
+  });
+
+  it('should close a tour in other tabs when it is completed elsewhere', async () => {
+    const firstTab = openTab();
+    await flushPromises();
+    const secondTab = openTab();
+    await flushPromises();
+    await flushPromises();
+
+    secondTab.dismiss();
+    firstTab.complete();
+    await flushPromises();
+    await flushPromises();
+
+    expect(secondTab.getTourState('tour-a')?.status).toBe('completed');
+    expect(firstTab.getTourState('tour-b')?.status).toBe('dismissed');
+    expect(firstTab.getActiveTour()).toBeNull();
+    expect(secondTab.getActiveTour()).toBeNull();
+  });
+
+  it('should show the tour once the other tab releases it', async () => {
+    const firstTab = openTab();
+    await flushPromises();
+    const secondTab = openTab();
+    await flushPromises();
+    await flushPromises();
+    secondTab.dismiss();
+    await flushPromises();
+
+    // Closing the tab releases its tours without marking them as seen
+    window.dispatchEvent(new Event('pagehide'));
+    MockBroadcastChannel.channels[0].close();
+    await flushPromises();
+    await flushPromises();
+
+    expect(firstTab.getActiveTour()?.tourId).toBe('tour-a');
+    expect(secondTab.getActiveTour()?.tourId).toBe('tour-a');
+  });
+
+  it('should let the tab that opened first keep a tour both tabs started', async () => {
+    const nowSpy = jest.spyOn(Date, 'now');
+    nowSpy.mockReturnValue(1000);
+    const firstTab = openTab();
+    nowSpy.mockReturnValue(2000);
+    const secondTab = openTab();
+    nowSpy.mockRestore();
+    await flushPromises();
+    await flushPromises();
+    await flushPromises();
+
+    expect(firstTab.getActiveTour()?.tourId).toBe('tour-a');
+    expect(secondTab.getActiveTour()?.tourId).toBe('tour-b');
+  });
+
+  it('should tell listeners and leave the frequency caps alone when another tab keeps the tour', async () => {
+    const frequencyCap = { maxToursPerSession: 1, minMinutesBetweenTours: 10 };
+    const nowSpy = jest.spyOn(Date, 'now');
+    nowSpy.mockReturnValue(1000);
+    const firstTab = openTab({ frequencyCap });
+    nowSpy.mockReturnValue(2000);
+    const secondTab = openTab({ frequencyCap });
+    nowSpy.mockRestore();
+    const onHidden = jest.fn();
+    secondTab.on('hidden', onHidden);
+    await flushPromises();
+    await flushPromises();
+    await flushPromises();
+
+    expect(onHidden).toHaveBeenCalledWith({ tourId: 'tour-a', reason: 'active_in_other_tab' });
+    expect(firstTab.getActiveTour()?.tourId).toBe('tour-a');
+    expect(secondTab.getActiveTour()?.tourId).toBe('tour-b');
+  });
+
+  it('should ignore state from other tabs for a different user', async () => {
+    mockPosthog.get_distinct_id = jest.fn().mockReturnValue('user-1');
+    const firstTab = openTab();
+    await flushPromises();
+
+    // Another user, e.g. one whose tab hasn't caught up with a logout yet
+    const secondTab = openTab({
+      posthogInstance: {
+        ...mockPosthog,
+        get_distinct_id: jest.fn().mockReturnValue('user-2'),
+        get_property: jest.fn().mockReturnValue({}),
+        people: { set: jest.fn() },
+      },
+    });
+    await flushPromises();
+    await flushPromises();
+
+    firstTab.markTourAsSeen('tour-b');
+    await flushPromises();
+
+    expect(secondTab.getTourState('tour-b')).toBeNull();
+  });
+
+  it('should fall back to storage events without BroadcastChannel', async () => {
+    delete (window as any).BroadcastChannel;
+    const setItemSpy = jest.spyOn(Storage.prototype, 'setItem');
+
+    const tab = openTab();
+    await flushPromises();
+    expect(setItemSpy).toHaveBeenCalledWith('posthog_tours_message', expect.stringContaining('"type":"claim"'));
+
+    // Another tab completes the tour
+    window.dispatchEvent(new StorageEvent('storage', {
+      key: 'posthog_tours_message',
+      newValue: JSON.stringify({
+        type: 'state',
+        tabId: 'other-tab',
+        tourId: 'tour-a',
+        record: { status: 'completed', timestamp: 1, lastStep: 0 },
+        distinctId: null,
+      }),
+    }));
+    await flushPromises();
+
+    expect(tab.getTourState('tour-a')?.status).toBe('completed');
+    expect(tab.getActiveTour()?.tourId).toBe('tour-b');
+
+    setItemSpy.mockRestore();
+  });
+
+  it('should not coordinate when crossTab is false', async () => {
+    const firstTab = openTab({ crossTab: false });
+    await flushPromises();
+    const secondTab = openTab({ crossTab: false });
+    await flushPromises();
+
+    expect(firstTab.getActiveTour()?.tourId).toBe('tour-a');
+    expect(secondTab.getActiveTour()?.tourId).toBe('tour-a');
+    expect(MockBroadcastChannel.channels).toHaveLength(0);
+  });
+});
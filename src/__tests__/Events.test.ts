@@ -0,0 +1,194 @@
+import { PostHogTours } from '../PostHogTours';
+
+describe('PostHogTours - Event listeners', () => {
+  let mockPosthog: any;
+  let userProperties: Record<string, any>;
+
+  const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+
+    userProperties = {};
+
+    mockPosthog = {
+      __loaded: true,
+      isFeatureEnabled: jest.fn().mockReturnValue(true),
+      onFeatureFlags: jest.fn().mockReturnValue(() => undefined), // Flags load when the test is ready
+      get_property: jest.fn().mockImplementation(() => userProperties),
+      people: {
+        set: jest.fn().mockImplementation((props) => {
+          Object.assign(userProperties, props);
+        })
+      },
+      capture: jest.fn(),
+    };
+
+    document.body.innerHTML = '<div id="app"><div id="step-1"></div><div id="step-2"></div></div>';
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  const loadFlags = async () => {
+    mockPosthog.onFeatureFlags.mock.calls[0][0]();
+    await flushPromises();
+  };
+
+  const createTours = (options = {}) => new PostHogTours({
+    tours: {
+      'tour-a': { name: 'Tour A', steps: [{ target: '#step-1' }, { target: '#step-2' }] },
+      'tour-b': { name: 'Tour B', target: '#step-2', priority: -1 },
+    },
+    posthogInstance: mockPosthog,
+    checkElementVisibility: false,
+    ...options,
+  });
+
+  it('should emit events through a tour\'s lifecycle', async () => {
+    const tours = createTours();
+    const events: string[] = [];
+    (['eligible', 'shown', 'stepChanged', 'completed', 'dismissed'] as const).forEach(event => {
+      tours.on(event, payload => events.push(`${event}:${payload.tourId}`));
+    });
+
+    await loadFlags();
+    tours.next();
+    tours.complete();
+    await flushPromises();
+    tours.dismiss();
+
+    expect(events).toEqual([
+      'eligible:tour-a',
+      'shown:tour-a',
+      'stepChanged:tour-a',
+      'eligible:tour-b', // Queued behind tour-a
+      'stepChanged:tour-a',
+      'completed:tour-a',
+      'eligible:tour-b',
+      'shown:tour-b',
+      'stepChanged:tour-b',
+      'dismissed:tour-b',
+    ]);
+  });
+
+  it('should pass typed payloads', async () => {
+    const tours = createTours();
+    const onShown = jest.fn();
+    const onStepChanged = jest.fn();
+    const onCompleted = jest.fn();
+    tours.on('shown', onShown);
+    tours.on('stepChanged', onStepChanged);
+    tours.on('completed', onCompleted);
+
+    await loadFlags();
+    tours.next();
+    tours.complete();
+
+    expect(onShown).toHaveBeenCalledWith({
+      tourId: 'tour-a',
+      element: document.getElementById('step-1'),
+      triggerType: 'element',
+    });
+    expect(onStepChanged).toHaveBeenLastCalledWith({
+      tourId: 'tour-a',
+      stepIndex: 1,
+      step: { target: '#step-2' },
+      element: document.getElementById('step-2'),
+    });
+    expect(onCompleted).toHaveBeenCalledWith({ tourId: 'tour-a', stepIndex: 1 });
+  });
+
+  it('should emit blocked with the reason', async () => {
+    const tours = createTours();
+    const onBlocked = jest.fn();
+    tours.on('blocked', onBlocked);
+    await loadFlags();
+
+    tours.complete();
+    await flushPromises();
+    await tours.checkTourEligibility('tour-a');
+
+    expect(onBlocked).toHaveBeenCalledWith(expect.objectContaining({
+      tourId: 'tour-a',
+      reason: 'already_seen',
+      result: expect.objectContaining({ eligible: false, blockedReason: 'already_seen' }),
+    }));
+  });
+
+  it('should emit stateSynced for state that arrives from PostHog', async () => {
+    const tours = createTours();
+    const onStateSynced = jest.fn();
+    tours.on('stateSynced', onStateSynced);
+
+    // Completed on another device
+    userProperties['seen_tour_tour-a'] = { status: 'completed', timestamp: 1, lastStep: 1 };
+    await loadFlags();
+
+    expect(onStateSynced).toHaveBeenCalledWith({
+      tourId: 'tour-a',
+      record: { status: 'completed', timestamp: 1, lastStep: 1 },
+      source: 'posthog',
+    });
+  });
+
+  it('should emit errors even when debug is off', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+    const error = new Error('Broken');
+    const tours = new PostHogTours({
+      tours: {
+        'tour-a': { name: 'Tour A', target: '#step-1', conditions: [{ type: 'custom', name: 'plan', check: () => { throw error; } }] },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+    const onError = jest.fn();
+    tours.on('error', onError);
+
+    await loadFlags();
+
+    expect(onError).toHaveBeenCalledWith({
+      message: expect.stringContaining('Condition "plan" for tour tour-a threw an error'),
+      error,
+    });
+    expect(consoleErrorSpy).not.toHaveBeenCalled();
+
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should stop calling listeners that were removed', async () => {
+    const tours = createTours();
+    const onShown = jest.fn();
+    const onEligible = jest.fn();
+    const unsubscribe = tours.on('shown', onShown);
+    tours.on('eligible', onEligible);
+
+    unsubscribe();
+    tours.off('eligible', onEligible);
+    await loadFlags();
+
+    expect(tours.getActiveTour()?.tourId).toBe('tour-a');
+    expect(onShown).not.toHaveBeenCalled();
+    expect(onEligible).not.toHaveBeenCalled();
+  });
+
+  it('should keep going when a listener throws', async () => {
+    const tours = createTours();
+    const onError = jest.fn();
+    const onShown = jest.fn();
+    tours.on('shown', () => { throw new Error('Listener failed'); });
+    tours.on('shown', onShown);
+    tours.on('error', onError);
+
+    await loadFlags();
+
+    expect(onShown).toHaveBeenCalled();
+    expect(tours.getActiveTour()?.tourId).toBe('tour-a');
+    expect(onError).toHaveBeenCalledWith({
+      message: expect.stringContaining('A listener for "shown" threw an error'),
+      error: expect.any(Error),
+    });
+  });
+});
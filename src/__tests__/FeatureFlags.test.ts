@@ -0,0 +1,152 @@
+import { PostHogTours } from '../PostHogTours';
+
+describe('PostHogTours - Feature flag loading', () => {
+  let mockPosthog: any;
+  let flagCallbacks: Array<() => void>;
+  let enabledFlags: Record<string, boolean>;
+
+  const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  const loadFlags = (flags: Record<string, boolean>) => {
+    enabledFlags = flags;
+    flagCallbacks.forEach(callback => callback());
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+
+    const userProperties: Record<string, any> = {};
+    flagCallbacks = [];
+    enabledFlags = {};
+
+    mockPosthog = {
+      __loaded: true,
+      // Flags are undefined until they have loaded
+      isFeatureEnabled: jest.fn().mockImplementation((flag: string) => enabledFlags[flag]),
+      onFeatureFlags: jest.fn().mockImplementation((callback: () => void) => {
+        flagCallbacks.push(callback);
+        return () => {
+          flagCallbacks = flagCallbacks.filter(cb => cb !== callback);
+        };
+      }),
+      get_property: jest.fn().mockImplementation(() => userProperties),
+      people: {
+        set: jest.fn().mockImplementation((props) => {
+          Object.assign(userProperties, props);
+        })
+      },
+      capture: jest.fn(),
+    };
+
+    document.body.innerHTML = `
+      <div id="app">
+        <div id="element-a"></div>
+        <div id="element-b"></div>
+      </div>
+    `;
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should not warn about missing flags before they have loaded', () => {
+    const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+    new PostHogTours({
+      tours: {
+        'tour-a': { name: 'Tour A', target: '#element-a' },
+      },
+      posthogInstance: mockPosthog,
+      debug: true,
+    });
+
+    expect(mockPosthog.onFeatureFlags).toHaveBeenCalledTimes(1);
+    expect(consoleWarnSpy).not.toHaveBeenCalled();
+
+    loadFlags({});
+
+    expect(consoleWarnSpy).toHaveBeenCalledWith(
+      expect.stringContaining('The following feature flags are not configured: tour-a')
+    );
+
+    consoleWarnSpy.mockRestore();
+  });
+
+  it('should wait for flags to load before checking tours', async () => {
+    const onEligible = jest.fn();
+
+    new PostHogTours({
+      tours: {
+        'tour-a': { name: 'Tour A', target: '#element-a', onEligible },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+    await flushPromises();
+
+    expect(onEligible).not.toHaveBeenCalled();
+
+    loadFlags({ 'tour-a': true });
+    await flushPromises();
+
+    expect(onEligible).toHaveBeenCalledTimes(1);
+    expect(onEligible).toHaveBeenCalledWith(document.querySelector('#element-a'), 'tour-a');
+  });
+
+  it('should re-check tours when flags change mid-session', async () => {
+    const onEligibleA = jest.fn();
+    const onEligibleB = jest.fn();
+
+    const tours = new PostHogTours({
+      tours: {
+        'tour-a': { name: 'Tour A', target: '#element-a', onEligible: onEligibleA },
+        'tour-b': { name: 'Tour B', target: '#element-b', onEligible: onEligibleB },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+
+    loadFlags({});
+    await flushPromises();
+    expect(onEligibleA).not.toHaveBeenCalled();
+
+    // e.g. after identify() the user falls into the rollout for tour B
+    loadFlags({ 'tour-b': true });
+    await flushPromises();
+
+    expect(onEligibleA).not.toHaveBeenCalled();
+    expect(onEligibleB).toHaveBeenCalledTimes(1);
+    expect(tours.getActiveTour()?.tourId).toBe('tour-b');
+
+    // Another reload doesn't restart the tour that is already showing
+    loadFlags({ 'tour-a': true, 'tour-b': true });
+    await flushPromises();
+
+    expect(onEligibleB).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pick up elements that appear after flags changed', async () => {
+    document.body.innerHTML = '<div id="app"></div>';
+    const onEligible = jest.fn();
+
+    new PostHogTours({
+      tours: {
+        'tour-a': { name: 'Tour A', target: '#element-a', onEligible },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+
+    loadFlags({});
+    loadFlags({ 'tour-a': true });
+
+    const element = document.createElement('div');
+    element.id = 'element-a';
+    document.getElementById('app')?.appendChild(element);
+    await flushPromises();
+
+    expect(onEligible).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,141 @@
+import { PostHogTours } from '../PostHogTours';
+
+describe('PostHogTours - Frequency capping', () => {
+  let mockPosthog: any;
+  let sessionId: string;
+
+  const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+
+    const userProperties: Record<string, any> = {};
+    sessionId = 'session-1';
+
+    mockPosthog = {
+      __loaded: true,
+      isFeatureEnabled: jest.fn().mockReturnValue(true),
+      get_session_id: jest.fn().mockImplementation(() => sessionId),
+      get_property: jest.fn().mockImplementation(() => userProperties),
+      people: {
+        set: jest.fn().mockImplementation((props) => {
+          Object.assign(userProperties, props);
+        })
+      },
+      capture: jest.fn(),
+    };
+
+    document.body.innerHTML = `
+      <div id="app">
+        <div id="element-a"></div>
+        <div id="element-b"></div>
+        <div id="element-c"></div>
+      </div>
+    `;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    document.body.innerHTML = '';
+  });
+
+  const tourConfigs = {
+    'tour-a': { name: 'Tour A', target: '#element-a', priority: 3 },
+    'tour-b': { name: 'Tour B', target: '#element-b', priority: 2 },
+    'tour-c': { name: 'Tour C', target: '#element-c', priority: 1 },
+  };
+
+  it('should not show more tours than maxToursPerSession', async () => {
+    const tours = new PostHogTours({
+      tours: tourConfigs,
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+      frequencyCap: { maxToursPerSession: 1 },
+    });
+    await flushPromises();
+
+    expect(tours.getActiveTour()?.tourId).toBe('tour-a');
+
+    tours.complete();
+    await flushPromises();
+
+    expect(tours.getActiveTour()).toBeNull();
+    const result = await tours.checkTourEligibility('tour-b');
+    expect(result.eligible).toBe(false);
+    expect(result.blockedReason).toBe('session_limit');
+
+    // A new session starts counting again
+    sessionId = 'session-2';
+    await tours.checkAllTours();
+
+    expect(tours.getActiveTour()?.tourId).toBe('tour-b');
+  });
+
+  it('should not show more tours than maxToursPerDay', async () => {
+    const tours = new PostHogTours({
+      tours: tourConfigs,
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+      frequencyCap: { maxToursPerDay: 2 },
+    });
+    await flushPromises();
+
+    tours.complete();
+    await flushPromises();
+    expect(tours.getActiveTour()?.tourId).toBe('tour-b');
+
+    tours.complete();
+    await flushPromises();
+    expect(tours.getActiveTour()).toBeNull();
+
+    // The daily cap applies across sessions
+    sessionId = 'session-2';
+    const result = await tours.checkTourEligibility('tour-c');
+    expect(result.blockedReason).toBe('daily_limit');
+  });
+
+  it('should wait minMinutesBetweenTours before showing the next tour', async () => {
+    jest.useFakeTimers({ now: new Date('2024-01-01T10:00:00Z') });
+
+    const tours = new PostHogTours({
+      tours: tourConfigs,
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+      frequencyCap: { minMinutesBetweenTours: 10 },
+    });
+    await jest.advanceTimersByTimeAsync(0);
+
+    tours.dismiss();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(tours.getActiveTour()).toBeNull();
+    const result = await tours.checkTourEligibility('tour-b');
+    expect(result.blockedReason).toBe('min_gap');
+
+    await jest.advanceTimersByTimeAsync(10 * 60 * 1000);
+
+    expect(tours.getActiveTour()?.tourId).toBe('tour-b');
+  });
+
+  it('should report why a tour is blocked', async () => {
+    document.getElementById('element-c')?.remove();
+
+    const tours = new PostHogTours({
+      tours: tourConfigs,
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+    await flushPromises();
+
+    expect((await tours.checkTourEligibility('tour-a')).blockedReason).toBeNull();
+    expect((await tours.checkTourEligibility('tour-c')).blockedReason).toBe('target_missing');
+
+    tours.complete();
+    await flushPromises();
+    expect((await tours.checkTourEligibility('tour-a')).blockedReason).toBe('already_seen');
+
+    mockPosthog.isFeatureEnabled.mockReturnValue(false);
+    expect((await tours.checkTourEligibility('tour-b')).blockedReason).toBe('flag_disabled');
+  });
+});
@@ -0,0 +1,153 @@
+import { PostHogTours } from '../PostHogTours';
+
+describe('PostHogTours - Identity changes', () => {
+  let mockPosthog: any;
+  let distinctId: string;
+  let userState: 'anonymous' | 'identified';
+  let personProperties: Record<string, any>;
+  let flagCallbacks: Array<() => void>;
+
+  const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  const getStored = (id: string) => JSON.parse(localStorage.getItem(`posthog_tours_seen:${id}`) || '{}');
+
+  // Like posthog.identify() and posthog.reset(), which both reload feature flags
+  const switchUser = (id: string, state: 'anonymous' | 'identified') => {
+    distinctId = id;
+    userState = state;
+    personProperties = {};
+    flagCallbacks.forEach(callback => callback());
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+
+    distinctId = 'anon-1';
+    userState = 'anonymous';
+    personProperties = {};
+    flagCallbacks = [];
+
+    mockPosthog = {
+      __loaded: true,
+      isFeatureEnabled: jest.fn().mockReturnValue(true),
+      onFeatureFlags: jest.fn().mockImplementation((callback: () => void) => {
+        flagCallbacks.push(callback);
+        callback();
+        return () => undefined;
+      }),
+      get_distinct_id: jest.fn().mockImplementation(() => distinctId),
+      get_property: jest.fn().mockImplementation((key: string) => key === '$user_state' ? userState : personProperties),
+      people: {
+        set: jest.fn().mockImplementation((props) => {
+          Object.assign(personProperties, props);
+        })
+      },
+      capture: jest.fn(),
+    };
+
+    document.body.innerHTML = '<div id="app"><div id="element-a"></div></div>';
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  const createTours = (options = {}) => new PostHogTours({
+    tours: {
+      'tour-a': { name: 'Tour A', target: '#element-a' },
+    },
+    posthogInstance: mockPosthog,
+    checkElementVisibility: false,
+    ...options,
+  });
+
+  it('should store seen state per distinct id', async () => {
+    const tours = createTours();
+    await flushPromises();
+
+    tours.complete();
+
+    expect(getStored('anon-1')['seen_tour_tour-a'].status).toBe('completed');
+    expect(localStorage.getItem('posthog_tours_seen')).toBeNull();
+  });
+
+  it('should not share seen tours with the next user after reset()', async () => {
+    userState = 'identified';
+    distinctId = 'user-1';
+    const tours = createTours();
+    await flushPromises();
+    tours.complete();
+
+    switchUser('anon-2', 'anonymous');
+    switchUser('user-2', 'identified');
+    await flushPromises();
+
+    expect(tours.getTourState('tour-a')).toBeNull();
+    expect(tours.getActiveTour()?.tourId).toBe('tour-a');
+
+    // The first user's state is still there when they log back in
+    expect(getStored('user-1')['seen_tour_tour-a'].status).toBe('completed');
+  });
+
+  it('should keep the tours an anonymous user saw when they identify', async () => {
+    const tours = createTours();
+    await flushPromises();
+    tours.dismiss();
+
+    switchUser('user-1', 'identified');
+    await flushPromises();
+
+    expect(tours.getTourState('tour-a')?.status).toBe('dismissed');
+    expect(tours.getActiveTour()).toBeNull();
+    expect(getStored('user-1')['seen_tour_tour-a'].status).toBe('dismissed');
+    expect(localStorage.getItem('posthog_tours_seen:anon-1')).toBeNull();
+  });
+
+  it('should not merge anonymous state when mergeAnonymousState is false', async () => {
+    const tours = createTours({ mergeAnonymousState: false });
+    await flushPromises();
+    tours.dismiss();
+
+    switchUser('user-1', 'identified');
+    await flushPromises();
+
+    expect(tours.getTourState('tour-a')).toBeNull();
+    expect(tours.getActiveTour()?.tourId).toBe('tour-a');
+  });
+
+  it('should end the previous user\'s active tour without recording it', async () => {
+    userState = 'identified';
+    distinctId = 'user-1';
+    const onEligible = jest.fn();
+    const tours = new PostHogTours({
+      tours: {
+        'tour-a': { name: 'Tour A', target: '#element-a', onEligible },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+    await flushPromises();
+    expect(onEligible).toHaveBeenCalledTimes(1);
+
+    switchUser('user-2', 'identified');
+    await flushPromises();
+
+    // Shown again, this time for the new user
+    expect(onEligible).toHaveBeenCalledTimes(2);
+    expect(getStored('user-1')).toEqual({});
+  });
+
+  it('should move state written before it was namespaced to the current user', async () => {
+    localStorage.setItem('posthog_tours_seen', JSON.stringify({
+      'seen_tour_tour-a': { status: 'completed', timestamp: 1, lastStep: 0 },
+    }));
+
+    const tours = createTours();
+    await flushPromises();
+
+    expect(tours.getTourState('tour-a')?.status).toBe('completed');
+    expect(getStored('anon-1')['seen_tour_tour-a'].status).toBe('completed');
+    expect(localStorage.getItem('posthog_tours_seen')).toBeNull();
+  });
+});
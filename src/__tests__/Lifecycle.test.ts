@@ -0,0 +1,289 @@
+import { PostHogTours } from '../PostHogTours';
+import { TourStateStore } from '../types';
+
+describe('PostHogTours - Lifecycle', () => {
+  let mockPosthog: any;
+  let renderer: { show: jest.Mock; hide: jest.Mock };
+  let unsubscribeFromFlags: jest.Mock;
+  let unsubscribeFromEvents: jest.Mock;
+
+  const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+
+    const userProperties: Record<string, any> = {};
+    unsubscribeFromFlags = jest.fn();
+    unsubscribeFromEvents = jest.fn();
+    renderer = { show: jest.fn(), hide: jest.fn() };
+
+    mockPosthog = {
+      __loaded: true,
+      isFeatureEnabled: jest.fn().mockReturnValue(true),
+      onFeatureFlags: jest.fn().mockImplementation((callback: () => void) => {
+        callback();
+        return unsubscribeFromFlags;
+      }),
+      on: jest.fn().mockReturnValue(unsubscribeFromEvents),
+      get_property: jest.fn().mockImplementation(() => userProperties),
+      people: {
+        set: jest.fn().mockImplementation((props) => {
+          Object.assign(userProperties, props);
+        })
+      },
+      capture: jest.fn(),
+    };
+
+    document.body.innerHTML = '<div id="app"><div id="step-1"></div><div id="step-2"></div></div>';
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+    window.history.replaceState({}, '', '/');
+  });
+
+  describe('destroy()', () => {
+    it('should unsubscribe from PostHog and navigation', async () => {
+      const onEligible = jest.fn();
+      const tours = new PostHogTours({
+        tours: {
+          'tour-a': { name: 'Tour A', target: '#step-1', url: '/settings', conditions: [{ type: 'event', event: 'saved' }], onEligible },
+        },
+        posthogInstance: mockPosthog,
+        checkElementVisibility: false,
+      });
+      await flushPromises();
+
+      tours.destroy();
+      expect(unsubscribeFromFlags).toHaveBeenCalled();
+      expect(unsubscribeFromEvents).toHaveBeenCalled();
+
+      window.history.pushState({}, '', '/settings');
+      await flushPromises();
+
+      expect(onEligible).not.toHaveBeenCalled();
+    });
+
+    it('should stop waiting for targets', async () => {
+      const onEligible = jest.fn();
+      const tours = new PostHogTours({
+        tours: {
+          'tour-a': { name: 'Tour A', target: '#later', onEligible },
+        },
+        posthogInstance: mockPosthog,
+        checkElementVisibility: false,
+      });
+      await flushPromises();
+
+      tours.destroy();
+      document.body.insertAdjacentHTML('beforeend', '<div id="later"></div>');
+      await flushPromises();
+
+      expect(onEligible).not.toHaveBeenCalled();
+      expect((tours as any).observers.size).toBe(0);
+    });
+
+    it('should not start watching targets when destroyed during an identity switch', async () => {
+      let distinctId = 'user-1';
+      let flagsCallback: () => void = () => undefined;
+      let resolveGet: (value: string | null) => void = () => undefined;
+      const store: TourStateStore = {
+        // The next user's state takes a while to load
+        get: jest.fn().mockImplementation((key: string) => key.includes('user-2')
+          ? new Promise(resolve => { resolveGet = resolve; })
+          : Promise.resolve(null)),
+        set: jest.fn().mockResolvedValue(undefined),
+        clear: jest.fn().mockResolvedValue(undefined),
+      };
+      const onEligible = jest.fn();
+      const tours = new PostHogTours({
+        tours: {
+          'tour-a': { name: 'Tour A', target: '#later', onEligible },
+        },
+        posthogInstance: {
+          ...mockPosthog,
+          get_distinct_id: () => distinctId,
+          onFeatureFlags: (callback: () => void) => {
+            flagsCallback = callback;
+            callback();
+            return unsubscribeFromFlags;
+          },
+        },
+        checkElementVisibility: false,
+        stateStore: store,
+        crossTab: false,
+      });
+      await flushPromises();
+
+      // Like posthog.identify(), which reloads flags
+      distinctId = 'user-2';
+      flagsCallback();
+      tours.destroy();
+      resolveGet(null);
+      await flushPromises();
+
+      expect((tours as any).observers.size).toBe(0);
+
+      document.body.insertAdjacentHTML('beforeend', '<div id="later"></div>');
+      await flushPromises();
+
+      expect(onEligible).not.toHaveBeenCalled();
+    });
+
+    it('should resolve pending eligibility checks as not eligible', async () => {
+      const disconnect = jest.fn();
+      (window as any).IntersectionObserver = jest.fn().mockImplementation(() => ({ observe: jest.fn(), disconnect }));
+      const rectSpy = jest.spyOn(Element.prototype, 'getBoundingClientRect').mockReturnValue({
+        top: 5000, left: 0, bottom: 5100, right: 100, width: 100, height: 100,
+      } as DOMRect);
+
+      const tours = new PostHogTours({
+        tours: {
+          'tour-a': { name: 'Tour A', target: '#step-1' },
+        },
+        posthogInstance: { ...mockPosthog, onFeatureFlags: undefined },
+      });
+
+      // Waiting for the target to scroll into view
+      const pending = tours.checkTourEligibility('tour-a');
+      await flushPromises();
+
+      tours.destroy();
+      const result = await pending;
+
+      expect(result.eligible).toBe(false);
+      expect(result.blockedReason).toBe('destroyed');
+      expect(disconnect).toHaveBeenCalled();
+
+      rectSpy.mockRestore();
+      delete (window as any).IntersectionObserver;
+    });
+
+    it('should hide the active tour', async () => {
+      const tours = new PostHogTours({
+        tours: {
+          'tour-a': { name: 'Tour A', target: '#step-1' },
+        },
+        posthogInstance: mockPosthog,
+        checkElementVisibility: false,
+        renderer,
+      });
+      await flushPromises();
+      expect(tours.getActiveTour()?.tourId).toBe('tour-a');
+
+      tours.destroy();
+
+      expect(tours.getActiveTour()).toBeNull();
+      expect(tours.isDestroyed()).toBe(true);
+      expect(renderer.hide).toHaveBeenCalled();
+    });
+
+    it('should make later calls safe no-ops', async () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      const tours = new PostHogTours({
+        tours: {
+          'tour-a': { name: 'Tour A', target: '#step-1' },
+        },
+        posthogInstance: mockPosthog,
+        checkElementVisibility: false,
+        debug: true,
+      });
+      await flushPromises();
+
+      tours.destroy();
+      tours.destroy();
+      mockPosthog.people.set.mockClear();
+
+      expect(() => tours.addTour('tour-a', { name: 'Duplicate', target: '#step-1' })).not.toThrow();
+      tours.markTourAsSeen('tour-a');
+      tours.reset();
+      tours.next();
+      tours.pause();
+
+      expect(await tours.forceTour('tour-a')).toBe(false);
+      expect(await tours.checkAllTours()).toEqual([]);
+      expect(mockPosthog.people.set).not.toHaveBeenCalled();
+      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('addTour() was called after destroy()'));
+
+      consoleWarnSpy.mockRestore();
+    });
+  });
+
+  describe('pause() and resume()', () => {
+    it('should hide the active tour and pick up at the same step', async () => {
+      const tours = new PostHogTours({
+        tours: {
+          'tour-a': { name: 'Tour A', steps: [{ target: '#step-1' }, { target: '#step-2' }] },
+        },
+        posthogInstance: mockPosthog,
+        checkElementVisibility: false,
+        renderer,
+      });
+      await flushPromises();
+      tours.next();
+      renderer.show.mockClear();
+      renderer.hide.mockClear();
+
+      tours.pause();
+      expect(tours.isPaused()).toBe(true);
+      expect(renderer.hide).toHaveBeenCalled();
+
+      // Moving on while paused doesn't show anything
+      tours.previous();
+      expect(renderer.show).not.toHaveBeenCalled();
+
+      tours.resume();
+      expect(renderer.show).toHaveBeenCalledTimes(1);
+      expect(renderer.show.mock.calls[0][2]).toEqual(expect.objectContaining({ tourId: 'tour-a', stepIndex: 0 }));
+    });
+
+    it('should not count the step again when resumed', async () => {
+      const tours = new PostHogTours({
+        tours: {
+          'tour-a': { name: 'Tour A', steps: [{ target: '#step-1' }, { target: '#step-2' }] },
+        },
+        posthogInstance: mockPosthog,
+        checkElementVisibility: false,
+        renderer,
+      });
+      await flushPromises();
+      const onStepChanged = jest.fn();
+      tours.on('stepChanged', onStepChanged);
+      mockPosthog.capture.mockClear();
+      renderer.show.mockClear();
+
+      tours.pause();
+      tours.resume();
+
+      expect(renderer.show).toHaveBeenCalledTimes(1);
+      expect(mockPosthog.capture).not.toHaveBeenCalledWith('tour_step_viewed', expect.anything());
+      expect(onStepChanged).not.toHaveBeenCalled();
+    });
+
+    it('should hold back tours that become eligible until resumed', async () => {
+      const onEligible = jest.fn();
+      const tours = new PostHogTours({
+        tours: {
+          'tour-a': { name: 'Tour A', target: '#later', onEligible },
+        },
+        posthogInstance: mockPosthog,
+        checkElementVisibility: false,
+      });
+      await flushPromises();
+
+      tours.pause();
+      document.body.insertAdjacentHTML('beforeend', '<div id="later"></div>');
+      await flushPromises();
+
+      expect(onEligible).not.toHaveBeenCalled();
+      expect(tours.getQueue()).toEqual(['tour-a']);
+
+      tours.resume();
+      await flushPromises();
+
+      expect(onEligible).toHaveBeenCalledTimes(1);
+      expect(tours.getActiveTour()?.tourId).toBe('tour-a');
+    });
+  });
+});
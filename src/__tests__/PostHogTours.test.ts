@@ -158,12 +158,13 @@ describe('PostHogTours', () => {
     tours.markTourAsSeen('feature-a');
     
     expect(mockPosthog.people.set).toHaveBeenCalledWith({
-      'test_seen_feature-a': true,
+      'test_seen_feature-a': expect.objectContaining({ status: 'completed' }),
     });
     
     expect(mockPosthog.capture).toHaveBeenCalledWith('tour_seen', {
       tour_id: 'feature-a',
       tour_name: 'Feature A Tour',
+      step_count: 1,
     });
   });
 
@@ -422,7 +423,7 @@ describe('PostHogTours', () => {
 
       // Verify localStorage is still authoritative
       const stored = JSON.parse(localStorage.getItem('posthog_tours_seen') || '{}');
-      expect(stored['seen_tour_feature-a']).toBe(true);
+      expect(stored['seen_tour_feature-a'].status).toBe('completed');
     });
 
     it('should persist localStorage across multiple PostHogTours instances', () => {
@@ -436,7 +437,7 @@ describe('PostHogTours', () => {
 
       // Verify it was saved to localStorage
       const stored1 = JSON.parse(localStorage.getItem('posthog_tours_seen') || '{}');
-      expect(stored1['seen_tour_feature-a']).toBe(true);
+      expect(stored1['seen_tour_feature-a'].status).toBe('completed');
 
       // Create a new instance (simulating page reload or component remount)
       // Mock PostHog to return empty (simulating it hasn't synced yet)
@@ -487,7 +488,7 @@ describe('PostHogTours', () => {
 
       // Verify localStorage has it
       const stored = JSON.parse(localStorage.getItem('posthog_tours_seen') || '{}');
-      expect(stored['seen_tour_feature-a']).toBe(true);
+      expect(stored['seen_tour_feature-a'].status).toBe('completed');
     });
 
     it('should simulate real-world tour interaction across page loads', async () => {
@@ -513,7 +514,7 @@ describe('PostHogTours', () => {
 
       // Verify localStorage was updated
       const stored1 = JSON.parse(localStorage.getItem('posthog_tours_seen') || '{}');
-      expect(stored1['seen_tour_feature-a']).toBe(true);
+      expect(stored1['seen_tour_feature-a'].status).toBe('completed');
 
       // Page Load 2: User refreshes immediately (PostHog hasn't synced yet)
       mockPosthog.get_property.mockReturnValue({}); // PostHog still doesn't have the data
@@ -547,7 +548,7 @@ describe('PostHogTours', () => {
 
       // Verify localStorage is still intact
       const stored3 = JSON.parse(localStorage.getItem('posthog_tours_seen') || '{}');
-      expect(stored3['seen_tour_feature-a']).toBe(true);
+      expect(stored3['seen_tour_feature-a'].status).toBe('completed');
     });
 
     it('should maintain localStorage authority even after PostHog sync', async () => {
@@ -602,8 +603,8 @@ describe('PostHogTours', () => {
 
       // Check that localStorage was updated
       const stored = JSON.parse(localStorage.getItem('posthog_tours_seen') || '{}');
-      expect(stored['seen_tour_feature-a']).toBe(true);
-      expect(stored['seen_tour_feature-b']).toBe(true);
+      expect(stored['seen_tour_feature-a'].status).toBe('completed');
+      expect(stored['seen_tour_feature-b'].status).toBe('completed');
       expect(stored['other_property']).toBeUndefined();
     });
 
@@ -618,12 +619,12 @@ describe('PostHogTours', () => {
 
       // Check PostHog was updated
       expect(mockPosthog.people.set).toHaveBeenCalledWith({
-        'test_seen_feature-a': true,
+        'test_seen_feature-a': expect.objectContaining({ status: 'completed' }),
       });
 
       // Check localStorage was updated
       const stored = JSON.parse(localStorage.getItem('posthog_tours_seen') || '{}');
-      expect(stored['test_seen_feature-a']).toBe(true);
+      expect(stored['test_seen_feature-a'].status).toBe('completed');
     });
 
     it('should check localStorage first when checking if tour was seen', async () => {
@@ -672,7 +673,7 @@ describe('PostHogTours', () => {
 
       // localStorage should now have the data
       const stored = JSON.parse(localStorage.getItem('posthog_tours_seen') || '{}');
-      expect(stored['seen_tour_feature-a']).toBe(true);
+      expect(stored['seen_tour_feature-a'].status).toBe('completed');
     });
 
     it('should handle corrupted localStorage data gracefully', () => {
@@ -697,7 +698,7 @@ describe('PostHogTours', () => {
 
       // Should have cleared and set new data
       const stored = JSON.parse(localStorage.getItem('posthog_tours_seen') || '{}');
-      expect(stored['seen_tour_feature-a']).toBe(true);
+      expect(stored['seen_tour_feature-a'].status).toBe('completed');
 
       consoleWarnSpy.mockRestore();
     });
@@ -737,7 +738,7 @@ describe('PostHogTours', () => {
 
       // PostHog should still have been updated
       expect(mockPosthog.people.set).toHaveBeenCalledWith({
-        'seen_tour_feature-a': true,
+        'seen_tour_feature-a': expect.objectContaining({ status: 'completed' }),
       });
 
       // Restore mocks
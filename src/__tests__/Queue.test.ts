@@ -0,0 +1,174 @@
+import { PostHogTours } from '../PostHogTours';
+
+describe('PostHogTours - Pending tour queue', () => {
+  let mockPosthog: any;
+
+  const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+
+    const userProperties: Record<string, any> = {};
+
+    mockPosthog = {
+      __loaded: true,
+      isFeatureEnabled: jest.fn().mockReturnValue(true),
+      get_property: jest.fn().mockImplementation(() => userProperties),
+      people: {
+        set: jest.fn().mockImplementation((props) => {
+          Object.assign(userProperties, props);
+        })
+      },
+      capture: jest.fn(),
+    };
+
+    document.body.innerHTML = '<div id="app"><div id="element-a"></div></div>';
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  const addElement = (id: string) => {
+    const element = document.createElement('div');
+    element.id = id;
+    document.getElementById('app')?.appendChild(element);
+  };
+
+  it('should enqueue tours that become eligible while another tour is active', async () => {
+    const onEligibleB = jest.fn();
+
+    const tours = new PostHogTours({
+      tours: {
+        'tour-a': { name: 'Tour A', target: '#element-a' },
+        'tour-b': { name: 'Tour B', target: '#element-b', onEligible: onEligibleB },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+    await flushPromises();
+
+    addElement('element-b');
+    await flushPromises();
+
+    expect(onEligibleB).not.toHaveBeenCalled();
+    expect(tours.getQueue()).toEqual(['tour-b']);
+    expect(mockPosthog.capture).toHaveBeenCalledWith('tour_enqueued', expect.objectContaining({
+      tour_id: 'tour-b',
+      active_tour_id: 'tour-a',
+      queue_position: 0,
+    }));
+
+    const result = await tours.checkTourEligibility('tour-b');
+    expect(result.eligible).toBe(true);
+    expect(result.queued).toBe(true);
+    expect(tours.getQueue()).toEqual(['tour-b']);
+  });
+
+  it('should run the next queued tour when the active one ends', async () => {
+    const onEligibleB = jest.fn();
+
+    const tours = new PostHogTours({
+      tours: {
+        'tour-a': { name: 'Tour A', target: '#element-a' },
+        'tour-b': { name: 'Tour B', target: '#element-b', onEligible: onEligibleB },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+    await flushPromises();
+
+    addElement('element-b');
+    await flushPromises();
+
+    tours.dismiss();
+    await flushPromises();
+
+    expect(onEligibleB).toHaveBeenCalledTimes(1);
+    expect(tours.getActiveTour()?.tourId).toBe('tour-b');
+    expect(tours.getQueue()).toEqual([]);
+    expect(mockPosthog.capture).toHaveBeenCalledWith('tour_dequeued', expect.objectContaining({
+      tour_id: 'tour-b',
+    }));
+  });
+
+  it('should order the queue by priority', async () => {
+    const tours = new PostHogTours({
+      tours: {
+        'tour-a': { name: 'Tour A', target: '#element-a', priority: 100 },
+        'tour-b': { name: 'Tour B', target: '#element-b' },
+        'tour-c': { name: 'Tour C', target: '#element-c', priority: 5 },
+        'tour-d': { name: 'Tour D', target: '#element-d' },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+    await flushPromises();
+
+    addElement('element-b');
+    await flushPromises();
+    addElement('element-c');
+    await flushPromises();
+    addElement('element-d');
+    await flushPromises();
+
+    expect(tours.getQueue()).toEqual(['tour-c', 'tour-b', 'tour-d']);
+
+    tours.complete();
+    await flushPromises();
+
+    expect(tours.getActiveTour()?.tourId).toBe('tour-c');
+    expect(tours.getQueue()).toEqual(['tour-b', 'tour-d']);
+  });
+
+  it('should drop queued tours that were completed in the meantime', async () => {
+    const tours = new PostHogTours({
+      tours: {
+        'tour-a': { name: 'Tour A', target: '#element-a' },
+        'tour-b': { name: 'Tour B', target: '#element-b' },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+    await flushPromises();
+
+    addElement('element-b');
+    await flushPromises();
+    expect(tours.getQueue()).toEqual(['tour-b']);
+
+    tours.markTourAsSeen('tour-b');
+    await flushPromises();
+
+    expect(tours.getQueue()).toEqual([]);
+    expect(tours.getActiveTour()?.tourId).toBe('tour-a');
+  });
+
+  it('should take a queued tour off the queue when it starts without being dequeued', async () => {
+    history.replaceState(null, '', '/');
+    const tours = new PostHogTours({
+      tours: {
+        'tour-a': { name: 'Tour A', target: '#element-a', url: '/' },
+        'tour-b': { name: 'Tour B', target: '#element-b' },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+    await flushPromises();
+
+    addElement('element-b');
+    await flushPromises();
+    expect(tours.getQueue()).toEqual(['tour-b']);
+
+    // Navigating hides tour A, and monitoring picks up tour B again
+    history.pushState(null, '', '/settings');
+    await flushPromises();
+
+    expect(tours.getActiveTour()?.tourId).toBe('tour-b');
+    expect(tours.getQueue()).toEqual([]);
+    expect(tours.getSnapshot().tours['tour-b'].eligibility).toEqual({ eligible: true, queued: false, blockedReason: null });
+
+    tours.destroy();
+    history.replaceState(null, '', '/');
+  });
+});
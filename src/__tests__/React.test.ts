@@ -0,0 +1,220 @@
+import { act, createElement, ReactNode, StrictMode } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { PostHogTours } from '../PostHogTours';
+import {
+  PostHogToursProvider,
+  Tour,
+  tourTarget,
+  usePostHogTours,
+  useTour,
+  UseTourResult,
+  useToursSnapshot,
+  useTourTarget
+} from '../react';
+import { PostHogToursOptions, PostHogToursSnapshot } from '../types';
+
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+describe('React bindings', () => {
+  let mockPosthog: any;
+  let container: HTMLElement;
+  let root: Root;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+
+    const userProperties: Record<string, any> = {};
+
+    mockPosthog = {
+      __loaded: true,
+      isFeatureEnabled: jest.fn().mockReturnValue(true),
+      get_property: jest.fn().mockImplementation(() => userProperties),
+      people: {
+        set: jest.fn().mockImplementation((props) => {
+          Object.assign(userProperties, props);
+        })
+      },
+      capture: jest.fn(),
+    };
+
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    document.body.innerHTML = '';
+  });
+
+  const options = (overrides: Partial<PostHogToursOptions> = {}): PostHogToursOptions => ({
+    tours: {
+      'tour-a': {
+        name: 'Tour A',
+        steps: [{ target: tourTarget('first'), title: 'First' }, { target: tourTarget('second'), title: 'Second' }],
+      },
+    },
+    posthogInstance: mockPosthog,
+    checkElementVisibility: false,
+    crossTab: false,
+    ...overrides,
+  });
+
+  // Waits for the eligibility checks the instance starts by itself
+  const settle = () => act(() => new Promise(resolve => setTimeout(resolve, 0)));
+
+  function Target({ id }: { id: string }) {
+    return createElement('button', { ref: useTourTarget(id) }, id);
+  }
+
+  const render = (children: ReactNode, providerOptions = options()) => act(() => {
+    root.render(createElement(PostHogToursProvider, { options: providerOptions }, children));
+  });
+
+  it('should target elements marked with useTourTarget', async () => {
+    let tour: UseTourResult | undefined;
+    function Probe() {
+      tour = useTour('tour-a');
+      return null;
+    }
+
+    render([
+      createElement(Target, { id: 'first', key: 'first' }),
+      createElement(Target, { id: 'second', key: 'second' }),
+      createElement(Probe, { key: 'probe' }),
+    ]);
+    await settle();
+
+    expect(container.querySelector('[data-tour-id="first"]')).not.toBeNull();
+    expect(tour?.isActive).toBe(true);
+    expect(tour?.stepIndex).toBe(0);
+    expect(tour?.stepCount).toBe(2);
+    expect(tour?.eligibility).toEqual({ eligible: true, queued: false, blockedReason: null });
+
+    await act(async () => tour?.next());
+    expect(tour?.step?.title).toBe('Second');
+
+    await act(async () => tour?.complete());
+    expect(tour?.isActive).toBe(false);
+    expect(tour?.state?.status).toBe('completed');
+  });
+
+  it('should render a Tour while it is active', async () => {
+    render([
+      createElement(Target, { id: 'first', key: 'first' }),
+      createElement(Tour, {
+        tourId: 'tour-a',
+        key: 'tour',
+        children: (tour: UseTourResult) => createElement('div', { id: 'popover', onClick: tour.dismiss }, tour.step?.title),
+      }),
+    ]);
+    await settle();
+
+    const popover = container.querySelector('#popover') as HTMLElement;
+    expect(popover.textContent).toBe('First');
+
+    await act(async () => popover.click());
+
+    expect(container.querySelector('#popover')).toBeNull();
+    expect(mockPosthog.people.set).toHaveBeenCalledWith({
+      'seen_tour_tour-a': expect.objectContaining({ status: 'dismissed' }),
+    });
+  });
+
+  it('should report why a tour is blocked', async () => {
+    let tour: UseTourResult | undefined;
+    function Probe() {
+      tour = useTour('tour-a');
+      return null;
+    }
+
+    mockPosthog.isFeatureEnabled.mockReturnValue(false);
+    render([
+      createElement(Target, { id: 'first', key: 'first' }),
+      createElement(Probe, { key: 'probe' }),
+    ]);
+    await settle();
+
+    expect(tour?.isActive).toBe(false);
+    expect(tour?.eligibility).toEqual({ eligible: false, queued: false, blockedReason: 'flag_disabled' });
+  });
+
+  it('should not control another tour', async () => {
+    let tour: UseTourResult | undefined;
+    function Probe() {
+      tour = useTour('tour-b');
+      return null;
+    }
+
+    render([
+      createElement(Target, { id: 'first', key: 'first' }),
+      createElement(Probe, { key: 'probe' }),
+    ], options({
+      tours: {
+        'tour-a': { name: 'Tour A', target: tourTarget('first') },
+        'tour-b': { name: 'Tour B', target: '#missing' },
+      },
+    }));
+    await settle();
+
+    await act(async () => tour?.dismiss());
+
+    expect(tour?.isActive).toBe(false);
+    expect(mockPosthog.people.set).not.toHaveBeenCalled();
+  });
+
+  it('should re-render with the queue from the snapshot', async () => {
+    const snapshots: Array<PostHogToursSnapshot | null> = [];
+    function Probe() {
+      snapshots.push(useToursSnapshot());
+      return null;
+    }
+
+    render([
+      createElement(Target, { id: 'first', key: 'first' }),
+      createElement(Probe, { key: 'probe' }),
+    ], options({
+      tours: {
+        'tour-a': { name: 'Tour A', target: tourTarget('first'), priority: 1 },
+        'tour-b': { name: 'Tour B', target: tourTarget('first') },
+      },
+    }));
+    await settle();
+
+    expect(snapshots[0]).toBeNull();
+    expect(snapshots[snapshots.length - 1]?.activeTour?.tourId).toBe('tour-a');
+    expect(snapshots[snapshots.length - 1]?.queue).toEqual(['tour-b']);
+  });
+
+  it('should destroy the instance when the provider unmounts', async () => {
+    let instance: PostHogTours | null = null;
+    function Probe() {
+      instance = usePostHogTours();
+      return null;
+    }
+
+    render(createElement(StrictMode, null, createElement(Probe)));
+    await settle();
+
+    const mounted = instance as PostHogTours | null;
+    expect(mounted).toBeInstanceOf(PostHogTours);
+    expect(mounted?.isDestroyed()).toBe(false);
+
+    act(() => root.render(createElement('div')));
+
+    expect(mounted?.isDestroyed()).toBe(true);
+  });
+
+  it('should move the target attribute with the target id', () => {
+    function Movable({ id }: { id: string }) {
+      return createElement('span', { ref: useTourTarget(id) });
+    }
+
+    act(() => root.render(createElement(Movable, { id: 'before' })));
+    act(() => root.render(createElement(Movable, { id: 'after' })));
+
+    expect(container.querySelector(tourTarget('before'))).toBeNull();
+    expect(container.querySelector(tourTarget('after'))).not.toBeNull();
+  });
+});
@@ -0,0 +1,27 @@
+/**
+ * @jest-environment node
+ */
+import { createElement } from 'react';
+import { renderToString } from 'react-dom/server';
+import { PostHogToursProvider, useTour, useToursSnapshot } from '../react';
+
+describe('React bindings - Server rendering', () => {
+  const options = {
+    tours: {
+      'tour-a': { name: 'Tour A', target: '#step-1' },
+    },
+    posthogInstance: { __loaded: true } as any,
+  };
+
+  it('should render without an instance', () => {
+    function Probe() {
+      const tour = useTour('tour-a');
+      const snapshot = useToursSnapshot();
+      return createElement('span', null, `${tour.isActive ? 'active' : 'inactive'} ${snapshot === null ? 'no snapshot' : 'snapshot'}`);
+    }
+
+    const html = renderToString(createElement(PostHogToursProvider, { options }, createElement(Probe)));
+
+    expect(html).toBe('<span>inactive no snapshot</span>');
+  });
+});
@@ -0,0 +1,338 @@
+import { PostHogTours } from '../PostHogTours';
+import { DuplicateTourIdError, InvalidSelectorError, InvalidTourDefinitionError, UnknownTourError } from '../types';
+
+describe('PostHogTours - Remote tour definitions', () => {
+  let mockPosthog: any;
+  let payload: unknown;
+
+  const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  const definitions = {
+    'remote-tour': {
+      name: 'Remote Tour',
+      steps: [
+        { target: '#element-a', title: 'First', placement: 'bottom' },
+        { target: '#element-b', title: 'Second' },
+      ],
+      url: { path: '/', query: { beta: false } },
+      conditions: [{ type: 'viewport', minWidth: 100 }],
+    },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+
+    const userProperties: Record<string, any> = {};
+    payload = undefined;
+
+    mockPosthog = {
+      __loaded: true,
+      isFeatureEnabled: jest.fn().mockReturnValue(true),
+      getFeatureFlagPayload: jest.fn().mockImplementation(() => payload),
+      get_property: jest.fn().mockImplementation(() => userProperties),
+      people: {
+        set: jest.fn().mockImplementation((props) => {
+          Object.assign(userProperties, props);
+        })
+      },
+      capture: jest.fn(),
+    };
+
+    document.body.innerHTML = `
+      <div id="app">
+        <div id="element-a"></div>
+        <div id="element-b"></div>
+      </div>
+    `;
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should load tours from a feature flag payload', async () => {
+    payload = definitions;
+    const defaultOnStepChange = jest.fn();
+
+    const tours = new PostHogTours({
+      toursPayloadFlag: 'tour-definitions',
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+      defaultOnStepChange,
+    });
+    await flushPromises();
+
+    expect(mockPosthog.getFeatureFlagPayload).toHaveBeenCalledWith('tour-definitions');
+    expect(tours.getTourConfig('remote-tour')?.name).toBe('Remote Tour');
+    expect(tours.getActiveTour()?.tourId).toBe('remote-tour');
+    expect(defaultOnStepChange).toHaveBeenCalledWith(
+      document.querySelector('#element-a'),
+      expect.objectContaining({ title: 'First' }),
+      0,
+      'remote-tour'
+    );
+  });
+
+  it('should keep callbacks from code when a definition updates a local tour', async () => {
+    payload = JSON.stringify({ 'local-tour': { name: 'Updated copy', target: '#element-b' } });
+    const onEligible = jest.fn();
+
+    new PostHogTours({
+      tours: {
+        'local-tour': { name: 'Local Tour', target: '#element-a', onEligible },
+      },
+      toursPayloadFlag: 'tour-definitions',
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+    await flushPromises();
+
+    expect(onEligible).toHaveBeenCalledWith(document.querySelector('#element-b'), 'local-tour');
+  });
+
+  it('should watch navigation and events for tours from a payload that arrives after construction', async () => {
+    let eventListener: ((data: { event: string }) => void) | undefined;
+    mockPosthog.on = jest.fn().mockImplementation((_event: string, listener: (data: { event: string }) => void) => {
+      eventListener = listener;
+      return () => undefined;
+    });
+    // Like posthog-js, flags load after the instance is created
+    mockPosthog.onFeatureFlags = jest.fn().mockImplementation((callback: () => void) => {
+      setTimeout(callback, 0);
+      return () => undefined;
+    });
+    payload = {
+      'event-tour': { name: 'Event Tour', target: '#element-a', trigger: { type: 'event', event: 'project_created' } },
+      'settings-tour': { name: 'Settings Tour', target: '#element-b', url: { path: '/settings' } },
+    };
+    const onEligible = jest.fn();
+    history.pushState(null, '', '/');
+
+    const tours = new PostHogTours({
+      toursPayloadFlag: 'tour-definitions',
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+      crossTab: false,
+      defaultOnEligible: onEligible,
+    });
+    await flushPromises();
+    await flushPromises();
+
+    expect(onEligible).not.toHaveBeenCalled();
+
+    eventListener?.({ event: 'project_created' });
+    await flushPromises();
+    expect(onEligible).toHaveBeenCalledWith(document.querySelector('#element-a'), 'event-tour');
+
+    tours.complete();
+    history.pushState(null, '', '/settings');
+    await flushPromises();
+    expect(onEligible).toHaveBeenCalledWith(document.querySelector('#element-b'), 'settings-tour');
+
+    tours.destroy();
+    history.pushState(null, '', '/');
+  });
+
+  it('should ignore an invalid payload', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+    payload = { 'broken-tour': { target: '#element-a' } };
+
+    const tours = new PostHogTours({
+      tours: {
+        'local-tour': { name: 'Local Tour', target: '#element-a' },
+      },
+      toursPayloadFlag: 'tour-definitions',
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+      debug: true,
+    });
+    await flushPromises();
+
+    expect(tours.getTourConfig('broken-tour')).toBeUndefined();
+    expect(tours.getActiveTour()?.tourId).toBe('local-tour');
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      expect.stringContaining('Failed to load tours from the payload of tour-definitions'),
+      expect.any(InvalidTourDefinitionError)
+    );
+
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should ignore a payload with a selector the browser can\'t parse', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+    payload = { 'broken-tour': { name: 'Broken Tour', target: 'div[', priority: 10 } };
+
+    const tours = new PostHogTours({
+      tours: {
+        'local-tour': { name: 'Local Tour', target: '#element-a' },
+      },
+      toursPayloadFlag: 'tour-definitions',
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+      debug: true,
+    });
+    await flushPromises();
+
+    expect(tours.getTourConfig('broken-tour')).toBeUndefined();
+    expect(tours.getActiveTour()?.tourId).toBe('local-tour');
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      expect.stringContaining('Failed to load tours from the payload of tour-definitions'),
+      expect.any(InvalidSelectorError)
+    );
+
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should validate definitions passed to loadTours', () => {
+    const tours = new PostHogTours({
+      tours: {},
+      posthogInstance: mockPosthog,
+    });
+
+    expect(() => tours.loadTours('not json')).toThrow(InvalidTourDefinitionError);
+    expect(() => tours.loadTours({ tour: { name: 'No target' } })).toThrow(
+      'Invalid definition for tour "tour": either "target" or "steps" is required'
+    );
+    expect(() => tours.loadTours({ tour: { name: 'Tour', target: '#a', trigger: { type: 'hover' } } })).toThrow(
+      '"trigger.type" must be one of'
+    );
+    expect(() => tours.loadTours({
+      tour: { name: 'Tour', target: '#a', conditions: [{ type: 'custom' }] },
+    })).toThrow('unsupported type "custom"');
+    expect(() => tours.loadTours({
+      tour: { name: 'Tour', target: '#a', conditions: [{ type: 'cookie' }] },
+    })).toThrow('unknown type "cookie"');
+    expect(() => tours.loadTours({
+      tour: { name: 'Tour', steps: [{ target: '#a', placement: 'middle' }] },
+    })).toThrow('steps[0].placement must be one of');
+    expect(() => tours.loadTours({
+      tour: { name: 'Tour', steps: [{ target: '#a' }, { target: '#editor >>> div[' }] },
+    })).toThrow(InvalidSelectorError);
+    expect(tours.getTourConfig('tour')).toBeUndefined();
+  });
+
+  it('should load tours from a URL', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve(definitions),
+    });
+    (global as any).fetch = fetchMock;
+
+    const tours = new PostHogTours({
+      toursUrl: 'https://example.com/tours.json',
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+    await flushPromises();
+
+    expect(fetchMock).toHaveBeenCalledWith('https://example.com/tours.json');
+    expect(tours.getActiveTour()?.tourId).toBe('remote-tour');
+
+    fetchMock.mockResolvedValue({ ok: false, status: 404 });
+    await expect(tours.loadToursFromUrl('https://example.com/missing.json')).rejects.toThrow('status 404');
+
+    delete (global as any).fetch;
+  });
+
+  describe('runtime registration', () => {
+    it('should start monitoring tours added with addTour', async () => {
+      const onEligible = jest.fn();
+      const tours = new PostHogTours({
+        tours: {},
+        posthogInstance: mockPosthog,
+        checkElementVisibility: false,
+      });
+      await flushPromises();
+
+      tours.addTour('new-tour', { name: 'New Tour', target: '#element-c', onEligible });
+
+      const element = document.createElement('div');
+      element.id = 'element-c';
+      document.getElementById('app')?.appendChild(element);
+      await flushPromises();
+
+      expect(onEligible).toHaveBeenCalledWith(element, 'new-tour');
+    });
+
+    it('should not overwrite existing tours with addTour', async () => {
+      const tours = new PostHogTours({
+        tours: {
+          'tour-a': { name: 'Tour A', target: '#element-a' },
+        },
+        posthogInstance: mockPosthog,
+        checkElementVisibility: false,
+      });
+
+      expect(() => tours.addTour('tour-a', { name: 'Other', target: '#element-b' })).toThrow(DuplicateTourIdError);
+      expect(() => tours.updateTour('tour-b', { name: 'Other' })).toThrow(UnknownTourError);
+      expect(tours.getTourConfig('tour-a')?.name).toBe('Tour A');
+    });
+
+    it('should watch the new target after updateTour', async () => {
+      document.getElementById('element-a')?.remove();
+      const onEligible = jest.fn();
+      const tours = new PostHogTours({
+        tours: {
+          'tour-a': { name: 'Tour A', target: '#element-a', onEligible },
+        },
+        posthogInstance: mockPosthog,
+        checkElementVisibility: false,
+      });
+      await flushPromises();
+      expect(onEligible).not.toHaveBeenCalled();
+
+      tours.updateTour('tour-a', { target: '#element-b' });
+      await flushPromises();
+
+      expect(onEligible).toHaveBeenCalledWith(document.querySelector('#element-b'), 'tour-a');
+      expect(tours.getTourConfig('tour-a')?.name).toBe('Tour A');
+    });
+
+    it('should end an active tour removed with removeTour and move on', async () => {
+      const tours = new PostHogTours({
+        tours: {
+          'tour-a': { name: 'Tour A', target: '#element-a' },
+          'tour-b': { name: 'Tour B', target: '#element-b' },
+        },
+        posthogInstance: mockPosthog,
+        checkElementVisibility: false,
+      });
+      await flushPromises();
+      expect(tours.getActiveTour()?.tourId).toBe('tour-a');
+
+      tours.removeTour('tour-a');
+      await flushPromises();
+
+      expect(tours.getTourConfig('tour-a')).toBeUndefined();
+      expect(tours.getTourState('tour-a')).toBeNull();
+      expect(tours.getActiveTour()?.tourId).toBe('tour-b');
+    });
+
+    it('should block a tour removed while its conditions are checked', async () => {
+      let resolveCheck: (passed: boolean) => void = () => undefined;
+      const onEligible = jest.fn();
+      const tours = new PostHogTours({
+        tours: {
+          'tour-a': {
+            name: 'Tour A',
+            target: '#element-a',
+            conditions: [{ type: 'custom', name: 'plan', check: () => new Promise<boolean>(resolve => { resolveCheck = resolve; }) }],
+            onEligible,
+          },
+        },
+        posthogInstance: mockPosthog,
+        checkElementVisibility: false,
+      });
+      await flushPromises();
+
+      const checking = tours.checkTourEligibility('tour-a');
+      tours.removeTour('tour-a');
+      resolveCheck(true);
+
+      expect((await checking).blockedReason).toBe('removed');
+      expect(onEligible).not.toHaveBeenCalled();
+      expect(tours.getActiveTour()).toBeNull();
+    });
+  });
+});
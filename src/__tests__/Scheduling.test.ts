@@ -0,0 +1,140 @@
+import { PostHogTours } from '../PostHogTours';
+
+describe('PostHogTours - Priority and prerequisites', () => {
+  let mockPosthog: any;
+
+  const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+
+    const userProperties: Record<string, any> = {};
+
+    mockPosthog = {
+      __loaded: true,
+      isFeatureEnabled: jest.fn().mockReturnValue(true),
+      get_property: jest.fn().mockImplementation(() => userProperties),
+      people: {
+        set: jest.fn().mockImplementation((props) => {
+          Object.assign(userProperties, props);
+        })
+      },
+      capture: jest.fn(),
+    };
+
+    document.body.innerHTML = `
+      <div id="app">
+        <div id="dashboard"></div>
+        <div id="filters"></div>
+        <div id="export"></div>
+      </div>
+    `;
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should show the highest priority tour first regardless of config order', async () => {
+    const onEligibleLow = jest.fn();
+    const onEligibleHigh = jest.fn();
+
+    const tours = new PostHogTours({
+      tours: {
+        'low-priority': { name: 'Low', target: '#export', onEligible: onEligibleLow },
+        'high-priority': { name: 'High', target: '#dashboard', priority: 10, onEligible: onEligibleHigh },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+    await flushPromises();
+
+    expect(onEligibleHigh).toHaveBeenCalledTimes(1);
+    expect(onEligibleLow).not.toHaveBeenCalled();
+    expect(tours.getActiveTour()?.tourId).toBe('high-priority');
+  });
+
+  it('should check tours in priority order in checkAllTours', async () => {
+    const tours = new PostHogTours({
+      tours: {
+        'tour-a': { name: 'A', target: '#missing' },
+        'tour-b': { name: 'B', target: '#missing', priority: 5 },
+        'tour-c': { name: 'C', target: '#missing', priority: -1 },
+        'tour-d': { name: 'D', target: '#missing' },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+
+    const results = await tours.checkAllTours();
+
+    expect(results.map(result => result.tourId)).toEqual(['tour-b', 'tour-a', 'tour-d', 'tour-c']);
+  });
+
+  it('should not show a tour until its prerequisites are completed', async () => {
+    const onEligibleIntro = jest.fn();
+    const onEligibleFilters = jest.fn();
+
+    const tours = new PostHogTours({
+      tours: {
+        'advanced-filters': {
+          name: 'Advanced Filters',
+          target: '#filters',
+          priority: 10,
+          after: ['dashboard-intro'],
+          onEligible: onEligibleFilters,
+        },
+        'dashboard-intro': { name: 'Dashboard Intro', target: '#dashboard', onEligible: onEligibleIntro },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+    await flushPromises();
+
+    // The higher priority tour is blocked by its prerequisite
+    expect(onEligibleFilters).not.toHaveBeenCalled();
+    expect(onEligibleIntro).toHaveBeenCalledTimes(1);
+
+    const blocked = await tours.checkTourEligibility('advanced-filters');
+    expect(blocked.prerequisitesMet).toBe(false);
+    expect(blocked.eligible).toBe(false);
+
+    tours.complete();
+    await flushPromises();
+
+    expect(onEligibleFilters).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not treat a dismissed prerequisite as completed', async () => {
+    const onEligibleFilters = jest.fn();
+
+    const tours = new PostHogTours({
+      tours: {
+        'dashboard-intro': { name: 'Dashboard Intro', target: '#dashboard' },
+        'advanced-filters': {
+          name: 'Advanced Filters',
+          target: '#filters',
+          after: ['dashboard-intro'],
+          onEligible: onEligibleFilters,
+        },
+        'export-tour': {
+          name: 'Export',
+          target: '#export',
+          after: ['advanced-filters'],
+        },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+    await flushPromises();
+
+    tours.dismiss();
+    await flushPromises();
+
+    expect(onEligibleFilters).not.toHaveBeenCalled();
+
+    const result = await tours.checkTourEligibility('export-tour');
+    expect(result.prerequisitesMet).toBe(false);
+  });
+});
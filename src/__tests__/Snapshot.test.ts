@@ -0,0 +1,117 @@
+import { PostHogTours } from '../PostHogTours';
+
+describe('PostHogTours - Snapshots', () => {
+  let mockPosthog: any;
+
+  const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+
+    const userProperties: Record<string, any> = {};
+
+    mockPosthog = {
+      __loaded: true,
+      isFeatureEnabled: jest.fn().mockImplementation((flag: string) => flag !== 'tour-c'),
+      get_property: jest.fn().mockImplementation(() => userProperties),
+      people: {
+        set: jest.fn().mockImplementation((props) => {
+          Object.assign(userProperties, props);
+        })
+      },
+      capture: jest.fn(),
+    };
+
+    document.body.innerHTML = '<div id="app"><div id="step-1"></div><div id="step-2"></div></div>';
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  const createTours = () => new PostHogTours({
+    tours: {
+      'tour-a': { name: 'Tour A', steps: [{ target: '#step-1' }, { target: '#step-2' }], priority: 1 },
+      'tour-b': { name: 'Tour B', target: '#step-2' },
+      'tour-c': { name: 'Tour C', target: '#step-1' },
+    },
+    posthogInstance: mockPosthog,
+    checkElementVisibility: false,
+    crossTab: false,
+  });
+
+  it('should describe the active tour, queue and each tour', async () => {
+    const tours = createTours();
+    await flushPromises();
+
+    expect(tours.getSnapshot()).toEqual({
+      activeTour: { tourId: 'tour-a', stepIndex: 0, stepCount: 2, step: { target: '#step-1' } },
+      queue: ['tour-b'],
+      paused: false,
+      tours: {
+        'tour-a': { eligibility: { eligible: true, queued: false, blockedReason: null }, state: null },
+        'tour-b': { eligibility: { eligible: true, queued: true, blockedReason: null }, state: null },
+        'tour-c': { eligibility: { eligible: false, queued: false, blockedReason: 'flag_disabled' }, state: null },
+      },
+    });
+
+    tours.next();
+    tours.complete();
+    await flushPromises();
+
+    const snapshot = tours.getSnapshot();
+    expect(snapshot.activeTour?.tourId).toBe('tour-b');
+    expect(snapshot.queue).toEqual([]);
+    expect(snapshot.tours['tour-a'].state).toEqual(expect.objectContaining({ status: 'completed', lastStep: 1 }));
+  });
+
+  it('should return the same frozen snapshot until something changes', async () => {
+    const tours = createTours();
+    await flushPromises();
+
+    const snapshot = tours.getSnapshot();
+    expect(tours.getSnapshot()).toBe(snapshot);
+    expect(Object.isFrozen(snapshot)).toBe(true);
+    expect(Object.isFrozen(snapshot.queue)).toBe(true);
+    expect(Object.isFrozen(snapshot.tours['tour-a'])).toBe(true);
+
+    tours.pause();
+
+    expect(tours.getSnapshot()).not.toBe(snapshot);
+    expect(tours.getSnapshot().paused).toBe(true);
+    expect(snapshot.paused).toBe(false);
+  });
+
+  it('should notify subscribers of changes', async () => {
+    const tours = createTours();
+    await flushPromises();
+
+    const listener = jest.fn();
+    const unsubscribe = tours.subscribe(listener);
+
+    tours.next();
+    expect(listener).toHaveBeenCalled();
+    expect(tours.getSnapshot().activeTour?.stepIndex).toBe(1);
+
+    unsubscribe();
+    listener.mockClear();
+    tours.dismiss();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should keep notifying when a subscriber throws', async () => {
+    const tours = createTours();
+    await flushPromises();
+
+    const listener = jest.fn();
+    tours.subscribe(() => { throw new Error('Subscriber failed'); });
+    tours.subscribe(listener);
+
+    tours.next();
+
+    expect(listener).toHaveBeenCalled();
+    expect(tours.getActiveTour()?.stepIndex).toBe(1);
+  });
+});
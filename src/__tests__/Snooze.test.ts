@@ -0,0 +1,150 @@
+import { PostHogTours } from '../PostHogTours';
+import { TourRenderer } from '../TourRenderer';
+
+describe('PostHogTours - Snoozing tours', () => {
+  let mockPosthog: any;
+  let userProperties: Record<string, any>;
+  let sessionId: string;
+
+  const HOUR = 60 * 60 * 1000;
+  const NOW = 1700000000000;
+
+  const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  const getStored = () => JSON.parse(localStorage.getItem('posthog_tours_seen') || '{}');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+
+    userProperties = {};
+    sessionId = 'session-1';
+
+    mockPosthog = {
+      __loaded: true,
+      isFeatureEnabled: jest.fn().mockReturnValue(true),
+      get_property: jest.fn().mockImplementation(() => userProperties),
+      get_session_id: jest.fn().mockImplementation(() => sessionId),
+      people: {
+        set: jest.fn().mockImplementation((props) => {
+          Object.assign(userProperties, props);
+        })
+      },
+      capture: jest.fn(),
+    };
+
+    document.body.innerHTML = '<div id="target"></div>';
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    document.body.innerHTML = '';
+  });
+
+  const createTours = (options: Record<string, any> = {}) => new PostHogTours({
+    tours: {
+      'snooze-tour': { name: 'Snooze Tour', target: '#target' },
+    },
+    posthogInstance: mockPosthog,
+    checkElementVisibility: false,
+    ...options,
+  });
+
+  it('should end the active tour and persist the snooze in localStorage and PostHog', async () => {
+    const tours = createTours();
+    await flushPromises();
+    expect(tours.getActiveTour()?.tourId).toBe('snooze-tour');
+
+    tours.snoozeTour('snooze-tour', { hours: 24 });
+
+    const expected = {
+      status: 'snoozed',
+      timestamp: NOW,
+      lastStep: 0,
+      snoozedUntil: NOW + 24 * HOUR,
+    };
+    expect(tours.getActiveTour()).toBeNull();
+    expect(getStored()['seen_tour_snooze-tour']).toEqual(expected);
+    expect(mockPosthog.people.set).toHaveBeenCalledWith({ 'seen_tour_snooze-tour': expected });
+    expect(mockPosthog.capture).toHaveBeenCalledWith('tour_snoozed', expect.objectContaining({
+      tour_id: 'snooze-tour',
+      step_index: 0,
+      snooze_hours: 24,
+    }));
+  });
+
+  it('should make a tour eligible again once the snooze hours have passed', async () => {
+    const tours = createTours();
+    tours.snoozeTour('snooze-tour', { hours: 2 });
+
+    const snoozed = await tours.checkTourEligibility('snooze-tour');
+    expect(snoozed.status).toBe('snoozed');
+    expect(snoozed.eligible).toBe(false);
+
+    (Date.now as jest.Mock).mockReturnValue(NOW + 2 * HOUR);
+
+    const expired = await tours.checkTourEligibility('snooze-tour');
+    expect(expired.eligible).toBe(true);
+  });
+
+  it('should make a tour eligible again after the given number of new sessions', async () => {
+    const tours = createTours();
+    tours.snoozeTour('snooze-tour', { sessions: 2 });
+
+    // Still the session the tour was snoozed in
+    expect((await tours.checkTourEligibility('snooze-tour')).eligible).toBe(false);
+
+    sessionId = 'session-2';
+    expect((await tours.checkTourEligibility('snooze-tour')).eligible).toBe(false);
+    expect(getStored()['seen_tour_snooze-tour'].snoozeSessionsElapsed).toBe(1);
+
+    // Checking again in the same session doesn't count twice
+    expect((await tours.checkTourEligibility('snooze-tour')).eligible).toBe(false);
+
+    sessionId = 'session-3';
+    expect((await tours.checkTourEligibility('snooze-tour')).eligible).toBe(true);
+  });
+
+  it('should respect a snooze synced from PostHog on another device', async () => {
+    userProperties['seen_tour_snooze-tour'] = {
+      status: 'snoozed',
+      timestamp: NOW,
+      lastStep: 0,
+      snoozedUntil: NOW + HOUR,
+    };
+
+    const tours = createTours();
+    const result = await tours.checkTourEligibility('snooze-tour');
+
+    expect(result.status).toBe('snoozed');
+    expect(result.eligible).toBe(false);
+  });
+
+  it('should ignore a snooze without a duration', () => {
+    const tours = createTours();
+    tours.snoozeTour('snooze-tour', {});
+
+    expect(getStored()['seen_tour_snooze-tour']).toBeUndefined();
+  });
+
+  it('should show a remind me later button in the renderer when the tour has a snooze duration', async () => {
+    const tours = new PostHogTours({
+      tours: {
+        'snooze-tour': { name: 'Snooze Tour', target: '#target', snoozeDuration: { hours: 12 } },
+      },
+      posthogInstance: mockPosthog,
+      renderer: new TourRenderer(),
+      checkElementVisibility: false,
+    });
+    await flushPromises();
+
+    const button = document.querySelector('.posthog-tours-snooze') as HTMLElement;
+    expect(button.textContent).toBe('Remind me later');
+
+    button.click();
+
+    expect(tours.getActiveTour()).toBeNull();
+    expect(getStored()['seen_tour_snooze-tour'].snoozedUntil).toBe(NOW + 12 * HOUR);
+  });
+});
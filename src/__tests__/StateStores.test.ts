@@ -0,0 +1,204 @@
+import { PostHogTours } from '../PostHogTours';
+import { CookieStore, LocalStorageStore, MemoryStore, SessionStorageStore } from '../stores';
+import { TourStateStore } from '../types';
+
+describe('PostHogTours - State stores', () => {
+  let mockPosthog: any;
+
+  const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+    sessionStorage.clear();
+
+    const userProperties: Record<string, any> = {};
+
+    mockPosthog = {
+      __loaded: true,
+      isFeatureEnabled: jest.fn().mockReturnValue(true),
+      get_property: jest.fn().mockImplementation(() => userProperties),
+      people: {
+        set: jest.fn().mockImplementation((props) => {
+          Object.assign(userProperties, props);
+        })
+      },
+      capture: jest.fn(),
+    };
+
+    document.body.innerHTML = '<div id="app"><div id="element-a"></div></div>';
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  describe('built-in stores', () => {
+    const stores: Array<[string, () => TourStateStore]> = [
+      ['LocalStorageStore', () => new LocalStorageStore()],
+      ['SessionStorageStore', () => new SessionStorageStore()],
+      ['CookieStore', () => new CookieStore()],
+      ['MemoryStore', () => new MemoryStore()],
+    ];
+
+    it.each(stores)('%s should get, set and clear values', (_name, createStore) => {
+      const store = createStore();
+
+      expect(store.get('posthog_tours_test')).toBeNull();
+
+      store.set('posthog_tours_test', '{"a": "b; c=d"}');
+      expect(store.get('posthog_tours_test')).toBe('{"a": "b; c=d"}');
+
+      store.clear('posthog_tours_test');
+      expect(store.get('posthog_tours_test')).toBeNull();
+    });
+
+    it('should write to the matching web storage', () => {
+      new LocalStorageStore().set('key', 'local');
+      new SessionStorageStore().set('key', 'session');
+
+      expect(localStorage.getItem('key')).toBe('local');
+      expect(sessionStorage.getItem('key')).toBe('session');
+    });
+  });
+
+  it('should keep tour state in the configured store', async () => {
+    const store = new MemoryStore();
+
+    const tours = new PostHogTours({
+      tours: {
+        'tour-a': { name: 'Tour A', target: '#element-a' },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+      stateStore: store,
+    });
+    await flushPromises();
+
+    tours.complete();
+
+    expect(JSON.parse(store.get('posthog_tours_seen') as string)['seen_tour_tour-a'].status).toBe('completed');
+    expect(localStorage.getItem('posthog_tours_seen')).toBeNull();
+    expect(mockPosthog.people.set).toHaveBeenCalledWith({
+      'seen_tour_tour-a': expect.objectContaining({ status: 'completed' }),
+    });
+  });
+
+  it('should wait for async stores to load before checking tours', async () => {
+    let resolveGet: (value: string | null) => void = () => undefined;
+    const store: TourStateStore = {
+      get: jest.fn().mockImplementation((key: string) => key === 'posthog_tours_seen'
+        ? new Promise(resolve => { resolveGet = resolve; })
+        : Promise.resolve(null)),
+      set: jest.fn().mockResolvedValue(undefined),
+      clear: jest.fn().mockResolvedValue(undefined),
+    };
+    const onEligible = jest.fn();
+
+    const tours = new PostHogTours({
+      tours: {
+        'tour-a': { name: 'Tour A', target: '#element-a', onEligible },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+      stateStore: store,
+    });
+    await flushPromises();
+
+    expect(onEligible).not.toHaveBeenCalled();
+
+    // The user already completed the tour, according to our backend
+    resolveGet(JSON.stringify({ 'seen_tour_tour-a': { status: 'completed', timestamp: 1, lastStep: 0 } }));
+    await flushPromises();
+
+    expect(onEligible).not.toHaveBeenCalled();
+    expect(tours.getTourState('tour-a')?.status).toBe('completed');
+  });
+
+  it('should hold back changes made while an async store is loading', async () => {
+    const stored: Record<string, string> = {
+      posthog_tours_seen: JSON.stringify({ 'seen_tour_tour-x': { status: 'completed', timestamp: 1, lastStep: 0 } }),
+    };
+    const store: TourStateStore = {
+      get: (key: string) => new Promise(resolve => setTimeout(() => resolve(stored[key] ?? null), 10)),
+      set: async (key: string, value: string) => {
+        stored[key] = value;
+      },
+      clear: async (key: string) => {
+        delete stored[key];
+      },
+    };
+    const onEligible = jest.fn();
+
+    const tours = new PostHogTours({
+      tours: {
+        'tour-a': { name: 'Tour A', target: '#element-a', onEligible },
+        'tour-x': { name: 'Tour X', target: '#element-a', onEligible },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+      stateStore: store,
+    });
+    tours.markTourAsSeen('tour-a');
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(Object.keys(JSON.parse(stored.posthog_tours_seen))).toEqual(['seen_tour_tour-x', 'seen_tour_tour-a']);
+    expect(tours.getTourState('tour-a')?.status).toBe('completed');
+    expect(onEligible).not.toHaveBeenCalled();
+    expect(tours.getActiveTour()).toBeNull();
+  });
+
+  it('should log failed writes to async stores', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+    const store: TourStateStore = {
+      get: jest.fn().mockResolvedValue(null),
+      set: jest.fn().mockRejectedValue(new Error('Network error')),
+      clear: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const tours = new PostHogTours({
+      tours: {
+        'tour-a': { name: 'Tour A', target: '#element-a' },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+      stateStore: store,
+      debug: true,
+    });
+    await flushPromises();
+
+    tours.dismiss();
+    await flushPromises();
+
+    // The state is still kept in memory for this page
+    expect(tours.getTourState('tour-a')?.status).toBe('dismissed');
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      expect.stringContaining('Failed to save tour state to storage'),
+      expect.any(Error)
+    );
+
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should fall back to memory when localStorage is unavailable', async () => {
+    const setItemSpy = jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('The operation is insecure.', 'SecurityError');
+    });
+
+    const tours = new PostHogTours({
+      tours: {
+        'tour-a': { name: 'Tour A', target: '#element-a' },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+    await flushPromises();
+
+    tours.complete();
+
+    expect(tours.getTourState('tour-a')?.status).toBe('completed');
+    expect(setItemSpy).toHaveBeenCalledTimes(1); // Only the availability check
+
+    setItemSpy.mockRestore();
+  });
+});
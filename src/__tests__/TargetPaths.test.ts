@@ -0,0 +1,141 @@
+import { PostHogTours } from '../PostHogTours';
+import { TourConfig } from '../types';
+
+describe('PostHogTours - Shadow DOM and iframe targets', () => {
+  let mockPosthog: any;
+
+  const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+
+    const userProperties: Record<string, any> = {};
+
+    mockPosthog = {
+      __loaded: true,
+      isFeatureEnabled: jest.fn().mockReturnValue(true),
+      get_property: jest.fn().mockImplementation(() => userProperties),
+      people: {
+        set: jest.fn().mockImplementation((props) => {
+          Object.assign(userProperties, props);
+        })
+      },
+      capture: jest.fn(),
+    };
+
+    document.body.innerHTML = '<div id="app"></div>';
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  const createTours = (tour: Partial<TourConfig>) => new PostHogTours({
+    tours: { 'tour-a': { name: 'Tour A', ...tour } },
+    posthogInstance: mockPosthog,
+    checkElementVisibility: false,
+    crossTab: false,
+  });
+
+  const addHost = (mode: ShadowRootMode = 'open') => {
+    const host = document.createElement('div');
+    host.id = 'editor';
+    document.getElementById('app')?.appendChild(host);
+    return host.attachShadow({ mode });
+  };
+
+  const addFrame = () => {
+    const frame = document.createElement('iframe');
+    frame.id = 'preview';
+    document.getElementById('app')?.appendChild(frame);
+    return frame.contentDocument as Document;
+  };
+
+  it('should find targets inside open shadow roots', async () => {
+    const shadowRoot = addHost();
+    shadowRoot.innerHTML = '<button class="save">Save</button>';
+    const onEligible = jest.fn();
+    createTours({ target: '#editor >>> .save', onEligible });
+    await flushPromises();
+
+    expect(onEligible).toHaveBeenCalledWith(shadowRoot.querySelector('.save'), 'tour-a');
+  });
+
+  it('should detect targets that appear inside a shadow root later', async () => {
+    const onEligible = jest.fn();
+    createTours({ target: '#editor >>> .save', onEligible });
+    await flushPromises();
+
+    // The host appears first, then its content
+    const shadowRoot = addHost();
+    await flushPromises();
+    expect(onEligible).not.toHaveBeenCalled();
+
+    const button = document.createElement('button');
+    button.className = 'save';
+    shadowRoot.appendChild(button);
+    await flushPromises();
+
+    expect(onEligible).toHaveBeenCalledWith(button, 'tour-a');
+  });
+
+  it('should not reach into closed shadow roots', async () => {
+    const shadowRoot = addHost('closed');
+    shadowRoot.innerHTML = '<button class="save">Save</button>';
+    const tours = createTours({ target: '#editor >>> .save' });
+
+    const result = await tours.checkTourEligibility('tour-a');
+
+    expect(result.blockedReason).toBe('target_missing');
+  });
+
+  it('should detect targets that appear inside a same-origin iframe later', async () => {
+    const onEligible = jest.fn();
+    createTours({ target: '#preview >>> .toolbar', onEligible });
+    await flushPromises();
+
+    const frameDocument = addFrame();
+    await flushPromises();
+    expect(onEligible).not.toHaveBeenCalled();
+
+    const toolbar = frameDocument.createElement('div');
+    toolbar.className = 'toolbar';
+    frameDocument.body.appendChild(toolbar);
+    await flushPromises();
+
+    expect(onEligible).toHaveBeenCalledWith(toolbar, 'tour-a');
+  });
+
+  it('should apply the match strategy to the last part of the path', async () => {
+    const frameDocument = addFrame();
+    frameDocument.body.innerHTML = '<div id="editor"></div>';
+    const shadowRoot = (frameDocument.getElementById('editor') as Element).attachShadow({ mode: 'open' });
+    shadowRoot.innerHTML = '<li>One</li><li style="display: none">Two</li><li>Three</li>';
+    const onStepChange = jest.fn();
+    const tours = createTours({
+      steps: [
+        { target: { selector: '#preview >>> #editor >>> li', match: 'last' } },
+        { target: { selector: '#preview >>> #editor >>> li', match: 1 } },
+      ],
+      onStepChange,
+    });
+    await flushPromises();
+    tours.next();
+
+    expect(onStepChange.mock.calls.map(([element]) => element.textContent)).toEqual(['Three', 'Two']);
+  });
+
+  it('should stop watching inside roots once destroyed', async () => {
+    const shadowRoot = addHost();
+    const onEligible = jest.fn();
+    const tours = createTours({ target: '#editor >>> .save', onEligible });
+    await flushPromises();
+
+    tours.destroy();
+    shadowRoot.innerHTML = '<button class="save">Save</button>';
+    await flushPromises();
+
+    expect(onEligible).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,166 @@
+import { PostHogTours } from '../PostHogTours';
+import { InvalidTourDefinitionError, TourConfig } from '../types';
+
+describe('PostHogTours - Targets', () => {
+  let mockPosthog: any;
+
+  const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+
+    const userProperties: Record<string, any> = {};
+
+    mockPosthog = {
+      __loaded: true,
+      isFeatureEnabled: jest.fn().mockReturnValue(true),
+      get_property: jest.fn().mockImplementation(() => userProperties),
+      people: {
+        set: jest.fn().mockImplementation((props) => {
+          Object.assign(userProperties, props);
+        })
+      },
+      capture: jest.fn(),
+    };
+
+    document.body.innerHTML = `
+      <div id="app">
+        <button class="item" id="item-1" style="display: none">One</button>
+        <button class="item" id="item-2">Two</button>
+        <button class="item" id="item-3">Three</button>
+      </div>
+    `;
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  const createTours = (tour: Partial<TourConfig>, options = {}) => new PostHogTours({
+    tours: { 'tour-a': { name: 'Tour A', ...tour } },
+    posthogInstance: mockPosthog,
+    checkElementVisibility: false,
+    crossTab: false,
+    ...options,
+  });
+
+  it('should target an element', async () => {
+    const element = document.getElementById('item-3') as Element;
+    const onEligible = jest.fn();
+    createTours({ target: element, onEligible });
+    await flushPromises();
+
+    expect(onEligible).toHaveBeenCalledWith(element, 'tour-a');
+  });
+
+  it('should not show a tour whose element has been removed', async () => {
+    const element = document.getElementById('item-3') as Element;
+    element.remove();
+    const tours = createTours({ target: element });
+    await flushPromises();
+
+    expect(tours.getActiveTour()).toBeNull();
+    expect((await tours.checkTourEligibility('tour-a')).blockedReason).toBe('target_missing');
+  });
+
+  it('should look up function targets until they return an element', async () => {
+    let element: Element | null = null;
+    const target = jest.fn(() => element);
+    const onEligible = jest.fn();
+    createTours({ target, onEligible });
+    await flushPromises();
+
+    expect(target).toHaveBeenCalled();
+    expect(onEligible).not.toHaveBeenCalled();
+
+    element = document.createElement('div');
+    document.body.appendChild(element);
+    await flushPromises();
+
+    expect(onEligible).toHaveBeenCalledWith(element, 'tour-a');
+  });
+
+  it('should report function targets that throw', async () => {
+    const error = new Error('Grid not ready');
+    const tours = createTours({ target: () => { throw error; } });
+    const onError = jest.fn();
+    tours.on('error', onError);
+
+    const result = await tours.checkTourEligibility('tour-a');
+
+    expect(result.blockedReason).toBe('target_missing');
+    expect(onError).toHaveBeenCalledWith({
+      message: expect.stringContaining('Finding a target function threw an error'),
+      error,
+    });
+  });
+
+  it('should report selectors the browser can\'t parse', async () => {
+    const tours = createTours({ target: 'div[' });
+    const onError = jest.fn();
+    tours.on('error', onError);
+
+    const result = await tours.checkTourEligibility('tour-a');
+
+    expect(result.blockedReason).toBe('target_missing');
+    expect(onError).toHaveBeenCalledWith({
+      message: expect.stringContaining('Finding div[ threw an error'),
+      error: expect.anything(),
+    });
+  });
+
+  it('should find a data-tour-id set on an element already in the document', async () => {
+    const onEligible = jest.fn();
+    createTours({ target: { dataTourId: 'export' }, onEligible });
+    await flushPromises();
+
+    expect(onEligible).not.toHaveBeenCalled();
+
+    const element = document.getElementById('item-2') as Element;
+    element.setAttribute('data-tour-id', 'export');
+    await flushPromises();
+
+    expect(onEligible).toHaveBeenCalledWith(element, 'tour-a');
+  });
+
+  it('should pick among several matches', async () => {
+    const onStepChange = jest.fn();
+    const tours = createTours({
+      steps: [
+        { target: '.item' },
+        { target: { selector: '.item', match: 'first-visible' } },
+        { target: { selector: '.item', match: 'last' } },
+        { target: { selector: '.item', match: 1 } },
+        { target: { selector: '.item', match: 5 } },
+      ],
+      onStepChange,
+    });
+    await flushPromises();
+    tours.next();
+    tours.next();
+    tours.next();
+    tours.next();
+
+    expect(onStepChange.mock.calls.map(([element]) => element.id)).toEqual(['item-1', 'item-2', 'item-3', 'item-2']);
+    // The last step waits for a sixth match
+    expect(tours.getActiveTour()?.stepIndex).toBe(4);
+  });
+
+  it('should only accept selector targets in tour definitions', () => {
+    const tours = createTours({ target: '#item-2' });
+
+    expect(() => tours.loadTours({
+      'tour-b': { name: 'Tour B', target: { dataTourId: 'export', match: 'first-visible' } },
+    })).not.toThrow();
+    expect(() => tours.loadTours({
+      'tour-c': { name: 'Tour C', steps: [{ target: { selector: '.item', match: 'middle' } }] },
+    })).toThrow('Invalid definition for tour "tour-c": "steps[0].target.match" must be one of first, last, first-visible or an index');
+    expect(() => tours.loadTours({
+      'tour-d': { name: 'Tour D', target: () => null },
+    })).toThrow(InvalidTourDefinitionError);
+    expect(() => tours.loadTours({
+      'tour-e': { name: 'Tour E', target: { selector: '.item', dataTourId: 'export' } },
+    })).toThrow('Invalid definition for tour "tour-e": "target" must be a selector, { selector } or { dataTourId }');
+  });
+});
@@ -0,0 +1,164 @@
+import { PostHogTours } from '../PostHogTours';
+import { TourRenderer } from '../TourRenderer';
+
+describe('TourRenderer', () => {
+  let mockPosthog: any;
+
+  const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  const controls = () => ({
+    next: jest.fn(),
+    previous: jest.fn(),
+    dismiss: jest.fn(),
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+
+    const userProperties: Record<string, any> = {};
+
+    mockPosthog = {
+      __loaded: true,
+      isFeatureEnabled: jest.fn().mockReturnValue(true),
+      get_property: jest.fn().mockImplementation(() => userProperties),
+      people: {
+        set: jest.fn().mockImplementation((props) => {
+          Object.assign(userProperties, props);
+        })
+      },
+      capture: jest.fn(),
+    };
+
+    document.head.innerHTML = '';
+    document.body.innerHTML = `
+      <div id="app">
+        <div id="step-1"></div>
+        <div id="step-2"></div>
+      </div>
+    `;
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should render a popover with title, content and progress', () => {
+    const renderer = new TourRenderer();
+    const element = document.querySelector('#step-1') as Element;
+
+    renderer.show(element, { target: '#step-1', title: 'Hello', content: 'World', placement: 'right' }, {
+      tourId: 'tour', tourName: 'Tour', stepIndex: 0, stepCount: 2,
+    }, controls());
+
+    expect(document.querySelector('.posthog-tours-title')?.textContent).toBe('Hello');
+    expect(document.querySelector('.posthog-tours-content')?.textContent).toBe('World');
+    expect(document.querySelector('.posthog-tours-progress')?.textContent).toBe('1 of 2');
+    expect(document.querySelector('.posthog-tours-popover--right')).not.toBeNull();
+    expect(document.querySelector('.posthog-tours-spotlight')).not.toBeNull();
+    expect(document.querySelector('.posthog-tours-back')).toBeNull();
+    expect(document.querySelector('.posthog-tours-next')?.textContent).toBe('Next');
+    expect(document.getElementById('posthog-tours-styles')).not.toBeNull();
+  });
+
+  it('should wire next, back and close buttons to the controls', () => {
+    const renderer = new TourRenderer();
+    const stepControls = controls();
+    const element = document.querySelector('#step-2') as Element;
+
+    renderer.show(element, { target: '#step-2' }, {
+      tourId: 'tour', tourName: 'Tour', stepIndex: 1, stepCount: 2,
+    }, stepControls);
+
+    expect(document.querySelector('.posthog-tours-next')?.textContent).toBe('Done');
+
+    (document.querySelector('.posthog-tours-next') as HTMLElement).click();
+    (document.querySelector('.posthog-tours-back') as HTMLElement).click();
+    (document.querySelector('.posthog-tours-close') as HTMLElement).click();
+    document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+
+    expect(stepControls.next).toHaveBeenCalledTimes(1);
+    expect(stepControls.previous).toHaveBeenCalledTimes(1);
+    expect(stepControls.dismiss).toHaveBeenCalledTimes(2);
+  });
+
+  it('should apply theme overrides as CSS variables and custom labels', () => {
+    const renderer = new TourRenderer({
+      theme: { primaryColor: 'hotpink', borderRadius: '0px' },
+      labels: { next: 'Continue' },
+      spotlight: false,
+    });
+    const element = document.querySelector('#step-1') as Element;
+
+    renderer.show(element, { target: '#step-1' }, {
+      tourId: 'tour', tourName: 'Tour', stepIndex: 0, stepCount: 2,
+    }, controls());
+
+    const root = document.querySelector('.posthog-tours-root') as HTMLElement;
+    expect(root.style.getPropertyValue('--posthog-tours-primary-color')).toBe('hotpink');
+    expect(root.style.getPropertyValue('--posthog-tours-border-radius')).toBe('0px');
+    expect(document.querySelector('.posthog-tours-next')?.textContent).toBe('Continue');
+    expect(document.querySelector('.posthog-tours-spotlight')).toBeNull();
+  });
+
+  it('should remove the popover when hidden', () => {
+    const renderer = new TourRenderer();
+    const element = document.querySelector('#step-1') as Element;
+
+    renderer.show(element, { target: '#step-1' }, {
+      tourId: 'tour', tourName: 'Tour', stepIndex: 0, stepCount: 1,
+    }, controls());
+    renderer.hide();
+
+    expect(document.querySelector('.posthog-tours-root')).toBeNull();
+  });
+
+  it('should drive a tour when passed to PostHogTours', async () => {
+    const tours = new PostHogTours({
+      tours: {
+        'steps-tour': {
+          name: 'Steps Tour',
+          steps: [
+            { target: '#step-1', title: 'First' },
+            { target: '#step-2', title: 'Second' },
+          ],
+        },
+      },
+      posthogInstance: mockPosthog,
+      renderer: new TourRenderer(),
+      checkElementVisibility: false,
+    });
+    await flushPromises();
+
+    expect(document.querySelector('.posthog-tours-title')?.textContent).toBe('First');
+
+    (document.querySelector('.posthog-tours-next') as HTMLElement).click();
+    expect(document.querySelector('.posthog-tours-title')?.textContent).toBe('Second');
+
+    (document.querySelector('.posthog-tours-next') as HTMLElement).click();
+    expect(document.querySelector('.posthog-tours-root')).toBeNull();
+    expect(tours.getActiveTour()).toBeNull();
+  });
+
+  it('should not render tours that opt out of the renderer', async () => {
+    const onEligible = jest.fn();
+
+    new PostHogTours({
+      tours: {
+        'custom-ui-tour': {
+          name: 'Custom UI Tour',
+          target: '#step-1',
+          onEligible,
+          useRenderer: false,
+        },
+      },
+      posthogInstance: mockPosthog,
+      renderer: new TourRenderer(),
+      checkElementVisibility: false,
+    });
+    await flushPromises();
+
+    expect(onEligible).toHaveBeenCalled();
+    expect(document.querySelector('.posthog-tours-root')).toBeNull();
+  });
+});
@@ -0,0 +1,145 @@
+import { PostHogTours } from '../PostHogTours';
+
+describe('PostHogTours - Persisted tour state', () => {
+  let mockPosthog: any;
+  let userProperties: Record<string, any>;
+
+  const steps = [
+    { target: '#step-1' },
+    { target: '#step-2' },
+    { target: '#step-3' },
+  ];
+
+  const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  const getStored = () => JSON.parse(localStorage.getItem('posthog_tours_seen') || '{}');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+
+    userProperties = {};
+
+    mockPosthog = {
+      __loaded: true,
+      isFeatureEnabled: jest.fn().mockReturnValue(true),
+      get_property: jest.fn().mockImplementation(() => userProperties),
+      people: {
+        set: jest.fn().mockImplementation((props) => {
+          Object.assign(userProperties, props);
+        })
+      },
+      capture: jest.fn(),
+    };
+
+    document.body.innerHTML = `
+      <div id="app">
+        <div id="step-1"></div>
+        <div id="step-2"></div>
+        <div id="step-3"></div>
+      </div>
+    `;
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  const createTours = (options: Record<string, any> = {}) => new PostHogTours({
+    tours: {
+      'steps-tour': { name: 'Steps Tour', steps },
+    },
+    posthogInstance: mockPosthog,
+    checkElementVisibility: false,
+    ...options,
+  });
+
+  it('should persist a completed status with timestamp and last step', async () => {
+    jest.spyOn(Date, 'now').mockReturnValue(1700000000000);
+    const tours = createTours();
+    await flushPromises();
+
+    tours.next();
+    tours.next();
+    tours.next();
+
+    const expected = { status: 'completed', timestamp: 1700000000000, lastStep: 2 };
+    expect(getStored()['seen_tour_steps-tour']).toEqual(expected);
+    expect(mockPosthog.people.set).toHaveBeenCalledWith({ 'seen_tour_steps-tour': expected });
+    expect(tours.getTourState('steps-tour')).toEqual(expected);
+
+    jest.restoreAllMocks();
+  });
+
+  it('should persist a dismissed status with the step the user closed the tour on', async () => {
+    const tours = createTours();
+    await flushPromises();
+
+    tours.next();
+    tours.dismiss();
+
+    expect(getStored()['seen_tour_steps-tour']).toEqual(expect.objectContaining({
+      status: 'dismissed',
+      lastStep: 1,
+    }));
+
+    const result = await tours.checkTourEligibility('steps-tour');
+    expect(result.status).toBe('dismissed');
+    expect(result.alreadySeen).toBe(true);
+    expect(result.eligible).toBe(false);
+  });
+
+  it('should migrate legacy boolean entries from localStorage', () => {
+    localStorage.setItem('posthog_tours_seen', JSON.stringify({
+      'seen_tour_steps-tour': true,
+    }));
+
+    const tours = createTours();
+
+    expect(getStored()['seen_tour_steps-tour']).toEqual({ status: 'completed', timestamp: 0, lastStep: 0 });
+    expect(tours.getTourState('steps-tour')?.status).toBe('completed');
+  });
+
+  it('should migrate legacy boolean person properties from PostHog', async () => {
+    userProperties['seen_tour_steps-tour'] = true;
+
+    const tours = createTours();
+    const result = await tours.checkTourEligibility('steps-tour');
+
+    expect(result.status).toBe('completed');
+    expect(result.eligible).toBe(false);
+    expect(getStored()['seen_tour_steps-tour'].status).toBe('completed');
+  });
+
+  it('should re-show dismissed tours once the configured cooldown has passed', async () => {
+    const now = 1700000000000;
+    localStorage.setItem('posthog_tours_seen', JSON.stringify({
+      'seen_tour_steps-tour': { status: 'dismissed', timestamp: now - 3 * 60 * 60 * 1000, lastStep: 1 },
+    }));
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    const stillHidden = createTours({ reshowDismissedAfterHours: 24 });
+    const hiddenResult = await stillHidden.checkTourEligibility('steps-tour');
+    expect(hiddenResult.alreadySeen).toBe(true);
+    expect(hiddenResult.eligible).toBe(false);
+
+    const reshown = createTours({ reshowDismissedAfterHours: 2 });
+    const reshownResult = await reshown.checkTourEligibility('steps-tour');
+    expect(reshownResult.status).toBe('dismissed');
+    expect(reshownResult.alreadySeen).toBe(false);
+    expect(reshownResult.eligible).toBe(true);
+
+    jest.restoreAllMocks();
+  });
+
+  it('should never re-show completed tours regardless of the dismissed policy', async () => {
+    localStorage.setItem('posthog_tours_seen', JSON.stringify({
+      'seen_tour_steps-tour': { status: 'completed', timestamp: 0, lastStep: 2 },
+    }));
+
+    const tours = createTours({ reshowDismissedAfterHours: 0 });
+    const result = await tours.checkTourEligibility('steps-tour');
+
+    expect(result.eligible).toBe(false);
+  });
+});
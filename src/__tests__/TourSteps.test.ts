@@ -0,0 +1,212 @@
+import { PostHogTours } from '../PostHogTours';
+
+describe('PostHogTours - Multi-step tours', () => {
+  let mockPosthog: any;
+
+  const steps = [
+    { target: '#step-1', title: 'Step 1', content: 'First step' },
+    { target: '#step-2', title: 'Step 2', content: 'Second step', placement: 'bottom' as const },
+    { target: '#step-3', title: 'Step 3', content: 'Third step' },
+  ];
+
+  const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+
+    // Track user properties
+    const userProperties: Record<string, any> = {};
+
+    mockPosthog = {
+      __loaded: true,
+      isFeatureEnabled: jest.fn().mockReturnValue(true),
+      get_property: jest.fn().mockImplementation(() => userProperties),
+      people: {
+        set: jest.fn().mockImplementation((props) => {
+          Object.assign(userProperties, props);
+        })
+      },
+      capture: jest.fn(),
+    };
+
+    document.body.innerHTML = `
+      <div id="app">
+        <div id="step-1"></div>
+        <div id="step-2"></div>
+        <div id="step-3"></div>
+      </div>
+    `;
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  const createTours = (onStepChange = jest.fn(), onEligible = jest.fn()) => {
+    const tours = new PostHogTours({
+      tours: {
+        'steps-tour': {
+          name: 'Steps Tour',
+          steps,
+          onEligible,
+          onStepChange,
+        },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+    return { tours, onStepChange, onEligible };
+  };
+
+  it('should use the first step target to trigger the tour and show the first step', async () => {
+    const { tours, onStepChange, onEligible } = createTours();
+    await flushPromises();
+
+    expect(onEligible).toHaveBeenCalledWith(document.querySelector('#step-1'), 'steps-tour');
+    expect(onStepChange).toHaveBeenCalledTimes(1);
+    expect(onStepChange).toHaveBeenCalledWith(document.querySelector('#step-1'), steps[0], 0, 'steps-tour');
+    expect(tours.getActiveTour()).toEqual({
+      tourId: 'steps-tour',
+      stepIndex: 0,
+      stepCount: 3,
+      step: steps[0],
+    });
+  });
+
+  it('should move between steps with next, previous and goToStep', async () => {
+    const { tours, onStepChange } = createTours();
+    await flushPromises();
+
+    tours.next();
+    expect(onStepChange).toHaveBeenLastCalledWith(document.querySelector('#step-2'), steps[1], 1, 'steps-tour');
+
+    tours.previous();
+    expect(onStepChange).toHaveBeenLastCalledWith(document.querySelector('#step-1'), steps[0], 0, 'steps-tour');
+
+    tours.goToStep(2);
+    expect(onStepChange).toHaveBeenLastCalledWith(document.querySelector('#step-3'), steps[2], 2, 'steps-tour');
+    expect(tours.getActiveTour()?.stepIndex).toBe(2);
+  });
+
+  it('should ignore previous on the first step and out of range goToStep', async () => {
+    const { tours, onStepChange } = createTours();
+    await flushPromises();
+
+    tours.previous();
+    tours.goToStep(5);
+    tours.goToStep(-1);
+
+    expect(onStepChange).toHaveBeenCalledTimes(1);
+    expect(tours.getActiveTour()?.stepIndex).toBe(0);
+  });
+
+  it('should complete the tour when next is called on the last step', async () => {
+    const { tours } = createTours();
+    await flushPromises();
+
+    tours.goToStep(2);
+    tours.next();
+
+    expect(tours.getActiveTour()).toBeNull();
+    expect(mockPosthog.people.set).toHaveBeenCalledWith({
+      'seen_tour_steps-tour': expect.objectContaining({ status: 'completed', lastStep: 2 }),
+    });
+  });
+
+  it('should end the tour when dismissed', async () => {
+    const { tours } = createTours();
+    await flushPromises();
+
+    tours.dismiss();
+
+    expect(tours.getActiveTour()).toBeNull();
+    expect(mockPosthog.people.set).toHaveBeenCalledWith({
+      'seen_tour_steps-tour': expect.objectContaining({ status: 'dismissed', lastStep: 0 }),
+    });
+  });
+
+  it('should wait for a step target to appear before showing the step', async () => {
+    document.getElementById('step-2')?.remove();
+    const { tours, onStepChange } = createTours();
+    await flushPromises();
+
+    tours.next();
+
+    // Step 2 is not in the DOM yet
+    expect(onStepChange).toHaveBeenCalledTimes(1);
+    expect(tours.getActiveTour()?.stepIndex).toBe(1);
+
+    const element = document.createElement('div');
+    element.id = 'step-2';
+    document.getElementById('app')?.appendChild(element);
+    await flushPromises();
+
+    expect(onStepChange).toHaveBeenCalledTimes(2);
+    expect(onStepChange).toHaveBeenLastCalledWith(element, steps[1], 1, 'steps-tour');
+  });
+
+  it('should keep waiting for a step target after reset()', async () => {
+    document.getElementById('step-2')?.remove();
+    const { tours, onStepChange } = createTours();
+    await flushPromises();
+
+    tours.next();
+    tours.reset();
+    await flushPromises();
+
+    const element = document.createElement('div');
+    element.id = 'step-2';
+    document.getElementById('app')?.appendChild(element);
+    await flushPromises();
+
+    expect(tours.getActiveTour()?.stepIndex).toBe(1);
+    expect(onStepChange).toHaveBeenCalledTimes(2);
+    expect(onStepChange).toHaveBeenLastCalledWith(element, steps[1], 1, 'steps-tour');
+  });
+
+  it('should not show a step whose target appears after the user moved on', async () => {
+    document.getElementById('step-2')?.remove();
+    const { tours, onStepChange } = createTours();
+    await flushPromises();
+
+    tours.next();
+    tours.goToStep(2);
+    expect(onStepChange).toHaveBeenLastCalledWith(document.querySelector('#step-3'), steps[2], 2, 'steps-tour');
+
+    const element = document.createElement('div');
+    element.id = 'step-2';
+    document.getElementById('app')?.appendChild(element);
+    await flushPromises();
+
+    expect(onStepChange).toHaveBeenCalledTimes(2);
+  });
+
+  it('should treat a single-target tour as a one-step tour', async () => {
+    document.body.innerHTML = '<div id="single"></div>';
+    const defaultOnStepChange = jest.fn();
+
+    const tours = new PostHogTours({
+      tours: {
+        'single-tour': {
+          name: 'Single Tour',
+          target: '#single',
+        },
+      },
+      posthogInstance: mockPosthog,
+      defaultOnStepChange,
+      checkElementVisibility: false,
+    });
+    await flushPromises();
+
+    expect(defaultOnStepChange).toHaveBeenCalledWith(
+      document.querySelector('#single'),
+      { target: '#single', title: 'Single Tour' },
+      0,
+      'single-tour'
+    );
+
+    tours.next();
+    expect(tours.getActiveTour()).toBeNull();
+  });
+});
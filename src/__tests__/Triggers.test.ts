@@ -0,0 +1,157 @@
+import { PostHogTours } from '../PostHogTours';
+
+describe('PostHogTours - Tour triggers', () => {
+  let mockPosthog: any;
+  let eventListeners: Array<(data: { event: string }) => void>;
+
+  const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+
+    const userProperties: Record<string, any> = {};
+    eventListeners = [];
+
+    mockPosthog = {
+      __loaded: true,
+      isFeatureEnabled: jest.fn().mockReturnValue(true),
+      get_property: jest.fn().mockImplementation(() => userProperties),
+      on: jest.fn().mockImplementation((_event: string, listener: (data: { event: string }) => void) => {
+        eventListeners.push(listener);
+        return () => {
+          eventListeners = eventListeners.filter(l => l !== listener);
+        };
+      }),
+      people: {
+        set: jest.fn().mockImplementation((props) => {
+          Object.assign(userProperties, props);
+        })
+      },
+      capture: jest.fn(),
+    };
+
+    document.body.innerHTML = `
+      <div id="app">
+        <div id="target"></div>
+        <button id="open-settings">Settings</button>
+      </div>
+    `;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    document.body.innerHTML = '';
+  });
+
+  it('should show a tour when a PostHog event is captured', async () => {
+    const onEligible = jest.fn();
+
+    const tours = new PostHogTours({
+      tours: {
+        'event-tour': { name: 'Event', target: '#target', trigger: { type: 'event', event: 'report_created' }, onEligible },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+    await flushPromises();
+
+    expect(onEligible).not.toHaveBeenCalled();
+    const result = await tours.checkTourEligibility('event-tour');
+    expect(result.triggered).toBe(false);
+    expect(result.blockedReason).toBe('not_triggered');
+
+    eventListeners.forEach(listener => listener({ event: 'report_created' }));
+    await flushPromises();
+
+    expect(onEligible).toHaveBeenCalledTimes(1);
+    expect(mockPosthog.capture).toHaveBeenCalledWith('tour_shown', expect.objectContaining({
+      tour_id: 'event-tour',
+      trigger_type: 'event',
+    }));
+  });
+
+  it('should show a tour when the user clicks a selector and wait for its target', async () => {
+    document.getElementById('target')?.remove();
+    const onEligible = jest.fn();
+
+    new PostHogTours({
+      tours: {
+        'click-tour': { name: 'Click', target: '#target', trigger: { type: 'click', selector: '#open-settings' }, onEligible },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+    await flushPromises();
+
+    document.getElementById('open-settings')?.click();
+    await flushPromises();
+    expect(onEligible).not.toHaveBeenCalled();
+
+    // e.g. the click opened a modal containing the target
+    const target = document.createElement('div');
+    target.id = 'target';
+    document.getElementById('app')?.appendChild(target);
+    await flushPromises();
+
+    expect(onEligible).toHaveBeenCalledWith(target, 'click-tour');
+    expect(mockPosthog.capture).toHaveBeenCalledWith('tour_shown', expect.objectContaining({
+      trigger_type: 'click',
+    }));
+  });
+
+  it('should show a tour after the user has been idle on the page', async () => {
+    jest.useFakeTimers();
+    const onEligible = jest.fn();
+
+    new PostHogTours({
+      tours: {
+        'idle-tour': { name: 'Idle', target: '#target', trigger: { type: 'idle', seconds: 30 }, onEligible },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+    await jest.advanceTimersByTimeAsync(20000);
+
+    // Activity restarts the countdown
+    window.dispatchEvent(new Event('keydown'));
+    await jest.advanceTimersByTimeAsync(20000);
+    expect(onEligible).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(10000);
+    expect(onEligible).toHaveBeenCalledTimes(1);
+  });
+
+  it('should show a tour once its target has been visible for the dwell time', async () => {
+    jest.useFakeTimers();
+    let intersectionCallback: (entries: Array<{ isIntersecting: boolean }>) => void = () => undefined;
+    (window as any).IntersectionObserver = jest.fn().mockImplementation((callback) => {
+      intersectionCallback = callback;
+      return { observe: jest.fn(), disconnect: jest.fn() };
+    });
+    const onEligible = jest.fn();
+
+    new PostHogTours({
+      tours: {
+        'dwell-tour': { name: 'Dwell', target: '#target', trigger: { type: 'dwell', seconds: 5 }, onEligible },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+    await jest.advanceTimersByTimeAsync(0);
+
+    intersectionCallback([{ isIntersecting: true }]);
+    await jest.advanceTimersByTimeAsync(3000);
+
+    // Scrolling the target out of view restarts the dwell time
+    intersectionCallback([{ isIntersecting: false }]);
+    intersectionCallback([{ isIntersecting: true }]);
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(onEligible).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(onEligible).toHaveBeenCalledTimes(1);
+
+    delete (window as any).IntersectionObserver;
+  });
+});
@@ -0,0 +1,202 @@
+import { PostHogTours } from '../PostHogTours';
+import { matchesUrl } from '../urlMatching';
+
+describe('PostHogTours - URL targeting', () => {
+  let mockPosthog: any;
+
+  const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+    history.replaceState(null, '', '/');
+
+    const userProperties: Record<string, any> = {};
+
+    mockPosthog = {
+      __loaded: true,
+      isFeatureEnabled: jest.fn().mockReturnValue(true),
+      get_property: jest.fn().mockImplementation(() => userProperties),
+      people: {
+        set: jest.fn().mockImplementation((props) => {
+          Object.assign(userProperties, props);
+        })
+      },
+      capture: jest.fn(),
+    };
+
+    document.body.innerHTML = '<div id="app"><div class="sidebar"></div></div>';
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  describe('matchesUrl', () => {
+    const locationFor = (url: string) => new URL(url, 'http://localhost') as unknown as Location;
+
+    it('should match path globs', () => {
+      expect(matchesUrl('/projects/*/settings', locationFor('/projects/42/settings'))).toBe(true);
+      expect(matchesUrl('/projects/*/settings', locationFor('/projects/42/settings/'))).toBe(true);
+      expect(matchesUrl('/projects/*/settings', locationFor('/projects/42/team/settings'))).toBe(false);
+      expect(matchesUrl('/projects/**', locationFor('/projects/42/team/settings'))).toBe(true);
+    });
+
+    it('should test regexes against the full URL', () => {
+      expect(matchesUrl(/\/billing\?plan=/, locationFor('/billing?plan=pro'))).toBe(true);
+      expect(matchesUrl(/\/billing\?plan=/, locationFor('/billing'))).toBe(false);
+    });
+
+    it('should match query params and hashes', () => {
+      const matcher = { path: '/search', query: { q: true, debug: false, tab: 'people' } };
+
+      expect(matchesUrl(matcher, locationFor('/search?q=foo&tab=people'))).toBe(true);
+      expect(matchesUrl(matcher, locationFor('/search?tab=people'))).toBe(false);
+      expect(matchesUrl(matcher, locationFor('/search?q=foo&tab=people&debug=1'))).toBe(false);
+      expect(matchesUrl({ hash: /^#\/settings/ }, locationFor('/#/settings/team'))).toBe(true);
+    });
+
+    it('should match when any matcher in a list matches', () => {
+      expect(matchesUrl(['/home', '/dashboard'], locationFor('/dashboard'))).toBe(true);
+      expect(matchesUrl(['/home', '/dashboard'], locationFor('/settings'))).toBe(false);
+      expect(matchesUrl(undefined, locationFor('/settings'))).toBe(true);
+    });
+  });
+
+  it('should only show a tour on matching pages', async () => {
+    const onEligible = jest.fn();
+
+    const tours = new PostHogTours({
+      tours: {
+        'dashboard-tour': { name: 'Dashboard', target: '.sidebar', url: '/dashboard', onEligible },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+    await flushPromises();
+
+    expect(onEligible).not.toHaveBeenCalled();
+    const result = await tours.checkTourEligibility('dashboard-tour');
+    expect(result.urlMatched).toBe(false);
+    expect(result.blockedReason).toBe('url_mismatch');
+
+    history.pushState(null, '', '/dashboard');
+    await flushPromises();
+
+    expect(onEligible).toHaveBeenCalledTimes(1);
+    expect(tours.getActiveTour()?.tourId).toBe('dashboard-tour');
+  });
+
+  it('should hide the active tour when navigating away and show it again on return', async () => {
+    history.replaceState(null, '', '/dashboard');
+    const onEligible = jest.fn();
+
+    const tours = new PostHogTours({
+      tours: {
+        'dashboard-tour': { name: 'Dashboard', target: '.sidebar', url: '/dashboard', onEligible },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+    await flushPromises();
+    expect(tours.getActiveTour()?.tourId).toBe('dashboard-tour');
+
+    history.pushState(null, '', '/settings');
+    await flushPromises();
+
+    expect(tours.getActiveTour()).toBeNull();
+    expect(tours.getTourState('dashboard-tour')).toBeNull();
+
+    history.back();
+    await new Promise(resolve => window.addEventListener('popstate', resolve, { once: true }));
+    await flushPromises();
+
+    expect(onEligible).toHaveBeenCalledTimes(2);
+    expect(tours.getActiveTour()?.tourId).toBe('dashboard-tour');
+  });
+
+  it.each([
+    [{ maxToursPerSession: 1 }],
+    [{ minMinutesBetweenTours: 10 }],
+  ])('should not count a tour hidden by navigation towards the frequency cap %j', async (frequencyCap) => {
+    history.replaceState(null, '', '/dashboard');
+
+    const tours = new PostHogTours({
+      tours: {
+        'dashboard-tour': { name: 'Dashboard', target: '.sidebar', url: '/dashboard' },
+        'other-tour': { name: 'Other', target: '.sidebar', url: '/dashboard', priority: -1 },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+      crossTab: false,
+      frequencyCap,
+    });
+    await flushPromises();
+    expect(tours.getActiveTour()?.tourId).toBe('dashboard-tour');
+
+    history.pushState(null, '', '/settings');
+    await flushPromises();
+    expect(tours.getActiveTour()).toBeNull();
+
+    history.back();
+    await new Promise(resolve => window.addEventListener('popstate', resolve, { once: true }));
+    await flushPromises();
+
+    expect(tours.getActiveTour()?.tourId).toBe('dashboard-tour');
+
+    // Finishing it still counts, so the next tour is capped
+    tours.complete();
+    await flushPromises();
+
+    expect(tours.getActiveTour()).toBeNull();
+    const result = await tours.checkTourEligibility('other-tour');
+    expect(result.blockedReason).toBe('maxToursPerSession' in frequencyCap ? 'session_limit' : 'min_gap');
+
+    tours.destroy();
+  });
+
+  it('should stop waiting for the target of tours whose route no longer matches', async () => {
+    history.replaceState(null, '', '/dashboard');
+    document.body.innerHTML = '<div id="app"></div>';
+    const onEligible = jest.fn();
+
+    new PostHogTours({
+      tours: {
+        'dashboard-tour': { name: 'Dashboard', target: '.sidebar', url: '/dashboard', onEligible },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+    await flushPromises();
+
+    history.pushState(null, '', '/settings');
+    await flushPromises();
+
+    const sidebar = document.createElement('div');
+    sidebar.className = 'sidebar';
+    document.getElementById('app')?.appendChild(sidebar);
+    await flushPromises();
+
+    expect(onEligible).not.toHaveBeenCalled();
+  });
+
+  it('should re-check tours on hash changes', async () => {
+    const onEligible = jest.fn();
+
+    new PostHogTours({
+      tours: {
+        'settings-tour': { name: 'Settings', target: '.sidebar', url: { hash: '#/settings' }, onEligible },
+      },
+      posthogInstance: mockPosthog,
+      checkElementVisibility: false,
+    });
+    await flushPromises();
+    expect(onEligible).not.toHaveBeenCalled();
+
+    window.location.hash = '#/settings';
+    await new Promise(resolve => window.addEventListener('hashchange', resolve, { once: true }));
+    await flushPromises();
+
+    expect(onEligible).toHaveBeenCalledTimes(1);
+  });
+});
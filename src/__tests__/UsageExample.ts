@@ -1,5 +1,5 @@
 import posthog from 'posthog-js';
-import { PostHogTours } from '../';
+import { PostHogTours, TourRenderer } from '../';
 
 // Add a dummy test to prevent Jest from complaining
 test('This is just an example file, not a test', () => {
@@ -128,4 +128,25 @@ function advancedUsage() {
   function onAppStateChange() {
     tours.reset();
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Example 4: Using the built-in renderer instead of your own UI
+ */
+function withBuiltInRenderer() {
+  const tours = new PostHogTours({
+    tours: {
+      'dashboard-intro': {
+        name: 'Dashboard Introduction',
+        steps: [
+          { target: '.dashboard-header', title: 'Welcome', content: 'This is your dashboard.' },
+          { target: '.dashboard-filters', title: 'Filters', content: 'Narrow down your data here.', placement: 'right' }
+        ]
+      }
+    },
+    // Renders each step as a popover with next/back/close buttons
+    renderer: new TourRenderer({
+      theme: { primaryColor: '#f54e00' }
+    })
+  });
+}
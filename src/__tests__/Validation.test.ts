@@ -0,0 +1,156 @@
+import { PostHogTours } from '../PostHogTours';
+import {
+  DuplicateTourIdError,
+  InvalidSelectorError,
+  InvalidTourDefinitionError,
+  TourConfigError,
+  UnknownPrerequisiteError,
+  UnknownTourError
+} from '../types';
+
+describe('PostHogTours - Config validation', () => {
+  let mockPosthog: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+
+    const userProperties: Record<string, any> = {};
+
+    mockPosthog = {
+      __loaded: true,
+      isFeatureEnabled: jest.fn().mockReturnValue(true),
+      get_property: jest.fn().mockImplementation(() => userProperties),
+      people: {
+        set: jest.fn().mockImplementation((props) => {
+          Object.assign(userProperties, props);
+        })
+      },
+      capture: jest.fn(),
+    };
+
+    document.body.innerHTML = '<div id="app"><div id="element-a"></div></div>';
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should return no errors for a valid config', () => {
+    const tours = new PostHogTours({
+      tours: {
+        'tour-a': {
+          name: 'Tour A',
+          steps: [{ target: '#element-a' }, { target: '[data-tour="filters"]' }],
+          url: /\/dashboard/,
+          conditions: [{ type: 'custom', check: () => true }],
+        },
+        'tour-b': { name: 'Tour B', target: '.sidebar > li:first-child', after: ['tour-a'] },
+      },
+      posthogInstance: mockPosthog,
+    });
+
+    expect(tours.validateTours()).toEqual([]);
+  });
+
+  it('should report invalid selectors', () => {
+    const tours = new PostHogTours({
+      tours: {
+        'tour-a': {
+          name: 'Tour A',
+          steps: [{ target: '#element-a' }, { target: '.sidebar >' }],
+          trigger: { type: 'click', selector: '#open[' },
+          variants: { short: { target: '##short' } },
+        },
+      },
+      posthogInstance: mockPosthog,
+    });
+
+    const errors = tours.validateTours();
+
+    expect(errors).toHaveLength(3);
+    errors.forEach(error => expect(error).toBeInstanceOf(InvalidSelectorError));
+    expect(errors.map(error => (error as InvalidSelectorError).field)).toEqual([
+      'steps[1].target',
+      'trigger.selector',
+      'variants.short.target',
+    ]);
+    expect(errors[0].message).toBe('Tour "tour-a" has an invalid CSS selector in steps[1].target: ".sidebar >"');
+  });
+
+  it('should check each part of a selector path', () => {
+    const tours = new PostHogTours({
+      tours: {
+        'tour-a': { name: 'Tour A', target: 'my-editor >>> iframe >>> .toolbar' },
+        'tour-b': { name: 'Tour B', steps: [{ target: { selector: '#preview >>> li', match: 'last' } }] },
+        'tour-c': { name: 'Tour C', target: 'my-editor >>> .toolbar[' },
+        'tour-d': { name: 'Tour D', target: 'my-editor >>> ' },
+      },
+      posthogInstance: mockPosthog,
+    });
+
+    const errors = tours.validateTours();
+
+    expect(errors.map(error => [error.constructor, error.tourId, (error as InvalidSelectorError).selector])).toEqual([
+      [InvalidSelectorError, 'tour-c', 'my-editor >>> .toolbar['],
+      [InvalidSelectorError, 'tour-d', 'my-editor >>> '],
+    ]);
+  });
+
+  it('should report malformed tours, unknown prerequisites and near-duplicate ids', () => {
+    const tours = new PostHogTours({
+      tours: {
+        'tour-a': { name: 'Tour A', target: '#element-a', after: ['tour-z'] },
+        'Tour-A ': { name: 'Typo', target: '#element-a' },
+        'no-name': { target: '#element-a' } as any,
+        'bad-steps': { name: 'Bad Steps', steps: [{ title: 'No target' }] } as any,
+      },
+      posthogInstance: mockPosthog,
+    });
+
+    const errors = tours.validateTours();
+
+    expect(errors.map(error => [error.constructor, error.tourId])).toEqual([
+      [UnknownPrerequisiteError, 'tour-a'],
+      [DuplicateTourIdError, 'Tour-A '],
+      [InvalidTourDefinitionError, 'no-name'],
+      [InvalidTourDefinitionError, 'bad-steps'],
+    ]);
+    expect((errors[0] as UnknownPrerequisiteError).prerequisiteId).toBe('tour-z');
+    expect((errors[1] as DuplicateTourIdError).existingTourId).toBe('tour-a');
+    expect(errors[3].message).toBe('Invalid definition for tour "bad-steps": step 0 must have a "target" selector');
+    errors.forEach(error => expect(error).toBeInstanceOf(TourConfigError));
+  });
+
+  it('should log validation errors on construction in debug mode', () => {
+    const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+    new PostHogTours({
+      tours: {
+        'tour-a': { name: 'Tour A', target: '#element-a', after: ['tour-z'] },
+      },
+      posthogInstance: mockPosthog,
+      debug: true,
+    });
+
+    expect(consoleWarnSpy).toHaveBeenCalledWith(
+      'PostHog Tours: Tour "tour-a" is set to show after unknown tour "tour-z"'
+    );
+
+    consoleWarnSpy.mockRestore();
+  });
+
+  it('should throw an UnknownTourError when checking an unknown tour', async () => {
+    const tours = new PostHogTours({
+      tours: {
+        'tour-a': { name: 'Tour A', target: '#element-a' },
+      },
+      posthogInstance: mockPosthog,
+    });
+
+    await expect(tours.checkTourEligibility('tour-b')).rejects.toThrow(UnknownTourError);
+    await expect(tours.checkTourEligibility('tour-b')).rejects.toThrow(
+      'Unknown tour "tour-b". Add it to the tours option or register it with addTour.'
+    );
+  });
+});
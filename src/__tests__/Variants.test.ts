@@ -0,0 +1,155 @@
+import { PostHogTours } from '../PostHogTours';
+
+describe('PostHogTours - Multivariate feature flags', () => {
+  let mockPosthog: any;
+  let variant: string | boolean | undefined;
+
+  const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+
+    const userProperties: Record<string, any> = {};
+    variant = 'short';
+
+    mockPosthog = {
+      __loaded: true,
+      isFeatureEnabled: jest.fn().mockImplementation(() => !!variant),
+      getFeatureFlag: jest.fn().mockImplementation(() => variant),
+      get_property: jest.fn().mockImplementation(() => userProperties),
+      people: {
+        set: jest.fn().mockImplementation((props) => {
+          Object.assign(userProperties, props);
+        })
+      },
+      capture: jest.fn(),
+    };
+
+    document.body.innerHTML = `
+      <div id="app">
+        <div id="step-1"></div>
+        <div id="step-2"></div>
+        <div id="step-3"></div>
+      </div>
+    `;
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  const createTours = (onStepChange = jest.fn()) => new PostHogTours({
+    tours: {
+      'experiment-tour': {
+        name: 'Experiment Tour',
+        steps: [{ target: '#step-1', title: 'Default' }],
+        onStepChange,
+        variants: {
+          control: null,
+          short: {
+            steps: [{ target: '#step-1', title: 'Short' }],
+          },
+          long: {
+            name: 'Long Experiment Tour',
+            steps: [
+              { target: '#step-1', title: 'Long 1' },
+              { target: '#step-2', title: 'Long 2' },
+              { target: '#step-3', title: 'Long 3' },
+            ],
+          },
+        },
+      },
+    },
+    posthogInstance: mockPosthog,
+    checkElementVisibility: false,
+  });
+
+  it('should show no tour for variants mapped to null', async () => {
+    variant = 'control';
+    const onStepChange = jest.fn();
+    const tours = createTours(onStepChange);
+    await flushPromises();
+
+    const result = await tours.checkTourEligibility('experiment-tour');
+
+    expect(result.variant).toBe('control');
+    expect(result.flagEnabled).toBe(false);
+    expect(result.eligible).toBe(false);
+    expect(onStepChange).not.toHaveBeenCalled();
+  });
+
+  it('should use the steps of the active variant', async () => {
+    variant = 'long';
+    const onStepChange = jest.fn();
+    const tours = createTours(onStepChange);
+    await flushPromises();
+
+    expect(onStepChange).toHaveBeenCalledWith(
+      expect.any(Element),
+      { target: '#step-1', title: 'Long 1' },
+      0,
+      'experiment-tour'
+    );
+    expect(tours.getActiveTour()?.stepCount).toBe(3);
+
+    tours.next();
+    expect(onStepChange).toHaveBeenLastCalledWith(
+      expect.any(Element),
+      { target: '#step-2', title: 'Long 2' },
+      1,
+      'experiment-tour'
+    );
+  });
+
+  it('should fall back to the base config for unmapped variants and boolean flags', async () => {
+    variant = 'unmapped';
+    const onStepChange = jest.fn();
+    createTours(onStepChange);
+    await flushPromises();
+
+    expect(onStepChange).toHaveBeenCalledWith(
+      expect.any(Element),
+      { target: '#step-1', title: 'Default' },
+      0,
+      'experiment-tour'
+    );
+
+    variant = true;
+    const booleanStepChange = jest.fn();
+    localStorage.clear();
+    createTours(booleanStepChange);
+    await flushPromises();
+
+    expect(booleanStepChange).toHaveBeenCalledWith(
+      expect.any(Element),
+      { target: '#step-1', title: 'Default' },
+      0,
+      'experiment-tour'
+    );
+  });
+
+  it('should include the variant in every analytics event', async () => {
+    variant = 'long';
+    const tours = createTours();
+    await flushPromises();
+
+    tours.next();
+    tours.complete();
+
+    const events = mockPosthog.capture.mock.calls;
+    expect(events.map((call: any[]) => call[0])).toEqual([
+      'tour_shown',
+      'tour_step_viewed',
+      'tour_step_viewed',
+      'tour_completed',
+      'tour_seen',
+    ]);
+    events.forEach((call: any[]) => {
+      expect(call[1]).toEqual(expect.objectContaining({
+        tour_variant: 'long',
+        tour_name: 'Long Experiment Tour',
+      }));
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { PostHogTours } from '../PostHogTours';
+import { PostHogToursOptions, TourConfig } from '../types';
+
+describe('PostHogTours - Visibility', () => {
+  let mockPosthog: any;
+  let rects: Record<string, Partial<DOMRect>>;
+
+  const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+
+    const userProperties: Record<string, any> = {};
+
+    mockPosthog = {
+      __loaded: true,
+      isFeatureEnabled: jest.fn().mockReturnValue(true),
+      get_property: jest.fn().mockImplementation(() => userProperties),
+      people: {
+        set: jest.fn().mockImplementation((props) => {
+          Object.assign(userProperties, props);
+        })
+      },
+      capture: jest.fn(),
+    };
+
+    // Elements are laid out at the top of a 1024x768 viewport unless a test moves them
+    rects = {};
+    jest.spyOn(Element.prototype, 'getBoundingClientRect').mockImplementation(function (this: Element) {
+      const rect = { top: 0, left: 0, width: 100, height: 100, ...rects[this.id] };
+      return { ...rect, bottom: rect.top + rect.height, right: rect.left + rect.width } as DOMRect;
+    });
+
+    document.body.innerHTML = '<div id="app"><div id="container"><button id="target">Target</button></div></div>';
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete (document as any).elementFromPoint;
+    delete (window as any).IntersectionObserver;
+    document.body.innerHTML = '';
+  });
+
+  const createTours = (tour: Partial<TourConfig> = {}, options: Partial<PostHogToursOptions> = {}) => new PostHogTours({
+    tours: { 'tour-a': { name: 'Tour A', target: '#target', ...tour } },
+    posthogInstance: mockPosthog,
+    checkElementVisibility: { timeoutMs: 100 },
+    crossTab: false,
+    ...options,
+  });
+
+  const setStyle = (id: string, style: string) => {
+    (document.getElementById(id) as HTMLElement).setAttribute('style', style);
+  };
+
+  it('should not show tours whose target is hidden by styles', async () => {
+    setStyle('container', 'opacity: 0');
+    const tours = createTours();
+
+    expect((await tours.checkTourEligibility('tour-a')).blockedReason).toBe('not_visible');
+
+    setStyle('container', '');
+    setStyle('target', 'visibility: hidden');
+    expect((await tours.checkTourEligibility('tour-a')).blockedReason).toBe('not_visible');
+
+    setStyle('target', '');
+    expect((await tours.checkTourEligibility('tour-a')).eligible).toBe(true);
+  });
+
+  it('should wait for a target covered by another element', async () => {
+    const target = document.getElementById('target') as Element;
+    const modal = document.createElement('div');
+    document.body.appendChild(modal);
+    (document as any).elementFromPoint = jest.fn().mockReturnValue(modal);
+
+    const tours = createTours({}, { checkElementVisibility: { timeoutMs: 1000 } });
+    await wait(50);
+
+    expect(tours.getActiveTour()).toBeNull();
+
+    // The modal closes
+    (document as any).elementFromPoint.mockReturnValue(target);
+    await wait(300);
+
+    expect(tours.getActiveTour()?.tourId).toBe('tour-a');
+  });
+
+  it('should ignore occlusion when checkOcclusion is off', async () => {
+    (document as any).elementFromPoint = jest.fn().mockReturnValue(document.body);
+    const tours = createTours({ visibility: { checkOcclusion: false } });
+
+    expect((await tours.checkTourEligibility('tour-a')).eligible).toBe(true);
+  });
+
+  it('should treat targets larger than the viewport as visible once they fill enough of it', async () => {
+    const observe = jest.fn();
+    (window as any).IntersectionObserver = jest.fn().mockImplementation(() => ({ observe, disconnect: jest.fn() }));
+    rects.target = { top: -500, height: 3000, width: 1024 };
+    const tours = createTours({ visibility: { threshold: 0.9 } });
+
+    expect((await tours.checkTourEligibility('tour-a')).eligible).toBe(true);
+    expect(observe).not.toHaveBeenCalled();
+  });
+
+  it('should not count targets scrolled out of their scroll container', async () => {
+    setStyle('container', 'overflow: auto');
+    rects.container = { top: 0, height: 100 };
+    rects.target = { top: 150, height: 100 };
+    const tours = createTours();
+
+    expect((await tours.checkTourEligibility('tour-a')).blockedReason).toBe('not_visible');
+
+    rects.target = { top: 50, height: 100 }; // Half of it scrolled into view
+    expect((await tours.checkTourEligibility('tour-a')).eligible).toBe(true);
+  });
+
+  it('should apply the threshold to the visible share of the target', async () => {
+    rects.target = { top: 718, height: 100 }; // Half of it below the fold
+    const tours = createTours({ visibility: { threshold: 0.75 } });
+
+    expect((await tours.checkTourEligibility('tour-a')).blockedReason).toBe('not_visible');
+
+    tours.updateTour('tour-a', { visibility: { threshold: 0.5 } });
+    expect((await tours.checkTourEligibility('tour-a')).eligible).toBe(true);
+  });
+
+  it('should wait for the target to stay visible for minVisibleMs', async () => {
+    const tours = createTours({ visibility: { minVisibleMs: 200, timeoutMs: 1000 } });
+    await wait(50);
+
+    expect(tours.getActiveTour()).toBeNull();
+
+    await wait(450);
+
+    expect(tours.getActiveTour()?.tourId).toBe('tour-a');
+  });
+
+  it('should let tours skip the check', async () => {
+    setStyle('target', 'display: none');
+    const tours = createTours({ visibility: false });
+
+    expect((await tours.checkTourEligibility('tour-a')).eligible).toBe(true);
+  });
+
+  it('should validate visibility in tour definitions', () => {
+    const tours = createTours();
+
+    expect(() => tours.loadTours({
+      'tour-b': { name: 'Tour B', target: '#target', visibility: { threshold: 2 } },
+    })).toThrow('Invalid definition for tour "tour-b": "visibility.threshold" must be between 0 and 1');
+    expect(() => tours.loadTours({
+      'tour-c': { name: 'Tour C', target: '#target', visibility: { minVisibleMs: '1s' } },
+    })).toThrow('Invalid definition for tour "tour-c": "visibility.minVisibleMs" must be a number');
+  });
+});
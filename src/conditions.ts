@@ -0,0 +1,83 @@
+import { PersonPropertyCondition, TourCondition, ViewportCondition } from './types';
+
+export interface ConditionContext {
+  tourId: string;
+  personProperties: Record<string, any>;
+  getEventCount: (event: string) => number;
+  onError: (condition: TourCondition, error: unknown) => void;
+}
+
+function matchesPersonProperty(condition: PersonPropertyCondition, personProperties: Record<string, any>): boolean {
+  const actual = personProperties[condition.property];
+  const isSet = actual !== undefined && actual !== null;
+
+  switch (condition.operator || 'exact') {
+    case 'is_set':
+      return isSet;
+    case 'is_not_set':
+      return !isSet;
+    case 'exact':
+      return isSet && String(actual) === String(condition.value);
+    case 'is_not':
+      return !isSet || String(actual) !== String(condition.value);
+    case 'contains':
+      return isSet && String(actual).toLowerCase().includes(String(condition.value).toLowerCase());
+    case 'gt':
+      return isSet && Number(actual) > Number(condition.value);
+    case 'gte':
+      return isSet && Number(actual) >= Number(condition.value);
+    case 'lt':
+      return isSet && Number(actual) < Number(condition.value);
+    case 'lte':
+      return isSet && Number(actual) <= Number(condition.value);
+    default:
+      return false;
+  }
+}
+
+function matchesViewport(condition: ViewportCondition): boolean {
+  const width = window.innerWidth || document.documentElement.clientWidth;
+  const height = window.innerHeight || document.documentElement.clientHeight;
+
+  return (
+    (condition.minWidth === undefined || width >= condition.minWidth) &&
+    (condition.maxWidth === undefined || width <= condition.maxWidth) &&
+    (condition.minHeight === undefined || height >= condition.minHeight) &&
+    (condition.maxHeight === undefined || height <= condition.maxHeight)
+  );
+}
+
+export async function evaluateCondition(condition: TourCondition, context: ConditionContext): Promise<boolean> {
+  switch (condition.type) {
+    case 'person_property':
+      return matchesPersonProperty(condition, context.personProperties);
+    case 'event':
+      return context.getEventCount(condition.event) >= (condition.minCount ?? 1);
+    case 'viewport':
+      return matchesViewport(condition);
+    case 'custom':
+      try {
+        return !!(await condition.check(context.tourId));
+      } catch (error) {
+        // A broken predicate shouldn't break eligibility checks for every other tour
+        context.onError(condition, error);
+        return false;
+      }
+    default:
+      return false;
+  }
+}
+
+// Returns the first condition that doesn't pass, or null when they all do
+export async function findFailedCondition(
+  conditions: TourCondition[],
+  context: ConditionContext
+): Promise<TourCondition | null> {
+  for (const condition of conditions) {
+    if (!(await evaluateCondition(condition, context))) {
+      return condition;
+    }
+  }
+
+  return null;
+}
@@ -4,6 +4,10 @@
 export const VERSION = '0.1.0';
 
 export { PostHogTours } from './PostHogTours';
+export { TourRenderer } from './TourRenderer';
+export type { TourRendererLabels, TourRendererOptions, TourRendererTheme } from './TourRenderer';
+export { CookieStore, LocalStorageStore, MemoryStore, SessionStorageStore } from './stores';
+export type { CookieStoreOptions } from './stores';
 export * from './types';
 
 // Example usage:
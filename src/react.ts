@@ -0,0 +1,146 @@
+// React bindings, imported from 'posthog-tours/react'. Written without JSX so the package builds without a JSX transform.
+import {
+  createContext,
+  createElement,
+  Fragment,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore
+} from 'react';
+import { PostHogTours } from './PostHogTours';
+import { dataTourIdSelector, TOUR_TARGET_ATTRIBUTE } from './targets';
+import {
+  PostHogToursOptions,
+  PostHogToursSnapshot,
+  TourEligibilitySnapshot,
+  TourStateRecord,
+  TourStep
+} from './types';
+
+const PostHogToursContext = createContext<PostHogTours | null>(null);
+
+export interface PostHogToursProviderProps {
+  options: PostHogToursOptions; // Read when the provider mounts; remount it (e.g. with a `key`) to apply new options
+  children?: ReactNode;
+}
+
+// Creates a PostHogTours instance for its children and destroys it on unmount
+export function PostHogToursProvider({ options, children }: PostHogToursProviderProps) {
+  const [tours, setTours] = useState<PostHogTours | null>(null);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  useEffect(() => {
+    const instance = new PostHogTours(optionsRef.current);
+    setTours(instance);
+
+    return () => {
+      instance.destroy();
+      setTours(null);
+    };
+  }, []);
+
+  return createElement(PostHogToursContext.Provider, { value: tours }, children);
+}
+
+// The provider's instance, or null before it has mounted
+export function usePostHogTours(): PostHogTours | null {
+  return useContext(PostHogToursContext);
+}
+
+// The provider only creates its instance in the browser, so there's never a snapshot on the server
+const getServerSnapshot = () => null;
+
+// The instance's snapshot, re-rendering whenever it changes. Null before the provider has mounted.
+export function useToursSnapshot(): PostHogToursSnapshot | null {
+  const tours = usePostHogTours();
+  const subscribe = useCallback((listener: () => void) => tours?.subscribe(listener) ?? (() => undefined), [tours]);
+  const getSnapshot = useCallback(() => tours?.getSnapshot() ?? null, [tours]);
+
+  return useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+}
+
+export interface UseTourResult {
+  isActive: boolean;
+  step: TourStep | null;
+  stepIndex: number | null; // Null unless the tour is active
+  stepCount: number;
+  eligibility: TourEligibilitySnapshot | null; // The latest eligibility check, null until the tour has been checked
+  state: TourStateRecord | null;
+  start: () => Promise<boolean>; // Shows the tour regardless of eligibility, like forceTour()
+  next: () => void;
+  previous: () => void;
+  goToStep: (stepIndex: number) => void;
+  complete: () => void;
+  dismiss: () => void;
+}
+
+export function useTour(tourId: string): UseTourResult {
+  const tours = usePostHogTours();
+  const snapshot = useToursSnapshot();
+
+  const activeTour = snapshot?.activeTour ?? null;
+  const isActive = activeTour?.tourId === tourId;
+  const tour = snapshot?.tours[tourId];
+
+  // The instance's controls act on whichever tour is active, so only pass them on for this one
+  const controls = useMemo(() => {
+    const ifActive = <T extends unknown[]>(control: (...args: T) => void) => (...args: T) => {
+      if (tours?.getActiveTour()?.tourId === tourId) {
+        control(...args);
+      }
+    };
+
+    return {
+      start: () => tours ? tours.forceTour(tourId) : Promise.resolve(false),
+      next: ifActive(() => tours?.next()),
+      previous: ifActive(() => tours?.previous()),
+      goToStep: ifActive((stepIndex: number) => tours?.goToStep(stepIndex)),
+      complete: ifActive(() => tours?.complete()),
+      dismiss: ifActive(() => tours?.dismiss())
+    };
+  }, [tours, tourId]);
+
+  return {
+    isActive,
+    step: isActive ? activeTour?.step ?? null : null,
+    stepIndex: isActive ? activeTour?.stepIndex ?? null : null,
+    stepCount: isActive ? activeTour?.stepCount ?? 0 : 0,
+    eligibility: tour?.eligibility ?? null,
+    state: tour?.state ?? null,
+    ...controls
+  };
+}
+
+export interface TourProps {
+  tourId: string;
+  children: (tour: UseTourResult) => ReactNode; // Rendered while the tour is active
+}
+
+// Renders your own UI for a tour while it's active. Set `useRenderer: false` on the tour if you also use the built-in renderer.
+export function Tour({ tourId, children }: TourProps) {
+  const tour = useTour(tourId);
+  return tour.isActive ? createElement(Fragment, null, children(tour)) : null;
+}
+
+// Selector for an element marked with useTourTarget(), for use as a tour or step `target`
+export function tourTarget(targetId: string): string {
+  return dataTourIdSelector(targetId);
+}
+
+// Ref callback that marks an element so `tourTarget(targetId)` finds it
+export function useTourTarget<T extends Element = HTMLElement>(targetId: string): (element: T | null) => void {
+  const elementRef = useRef<T | null>(null);
+
+  return useCallback((element: T | null) => {
+    // React calls the ref with null when the element unmounts or the target id changes
+    elementRef.current?.removeAttribute(TOUR_TARGET_ATTRIBUTE);
+    element?.setAttribute(TOUR_TARGET_ATTRIBUTE, targetId);
+    elementRef.current = element;
+  }, [targetId]);
+}
@@ -0,0 +1,107 @@
+import { TourStateStore } from './types';
+
+class WebStorageStore implements TourStateStore {
+  constructor(private getStorage: () => Storage) {}
+
+  get(key: string): string | null {
+    return this.getStorage().getItem(key);
+  }
+
+  set(key: string, value: string): void {
+    this.getStorage().setItem(key, value);
+  }
+
+  clear(key: string): void {
+    this.getStorage().removeItem(key);
+  }
+
+  // Safari private mode and partitioned iframes can throw on any access
+  isAvailable(): boolean {
+    try {
+      const key = '__posthog_tours_test__';
+      this.getStorage().setItem(key, key);
+      this.getStorage().removeItem(key);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+}
+
+export class LocalStorageStore extends WebStorageStore {
+  constructor() {
+    super(() => window.localStorage);
+  }
+}
+
+export class SessionStorageStore extends WebStorageStore {
+  constructor() {
+    super(() => window.sessionStorage);
+  }
+}
+
+export interface CookieStoreOptions {
+  days?: number; // How long cookies last (default 365)
+  path?: string; // Default '/'
+  domain?: string; // e.g. '.example.com' to share state across subdomains
+  sameSite?: 'Strict' | 'Lax' | 'None'; // Default 'Lax'
+  secure?: boolean; // Defaults to true on https pages
+}
+
+export class CookieStore implements TourStateStore {
+  private options: CookieStoreOptions;
+
+  constructor(options: CookieStoreOptions = {}) {
+    this.options = options;
+  }
+
+  get(key: string): string | null {
+    const prefix = `${encodeURIComponent(key)}=`;
+    const cookie = document.cookie.split('; ').find(part => part.startsWith(prefix));
+    return cookie ? decodeURIComponent(cookie.slice(prefix.length)) : null;
+  }
+
+  set(key: string, value: string): void {
+    this.write(key, encodeURIComponent(value), (this.options.days ?? 365) * 24 * 60 * 60);
+  }
+
+  clear(key: string): void {
+    this.write(key, '', 0);
+  }
+
+  private write(key: string, value: string, maxAge: number): void {
+    const { path = '/', domain, sameSite = 'Lax' } = this.options;
+    const secure = this.options.secure ?? window.location.protocol === 'https:';
+
+    let cookie = `${encodeURIComponent(key)}=${value}; max-age=${maxAge}; path=${path}; samesite=${sameSite}`;
+    if (domain) {
+      cookie += `; domain=${domain}`;
+    }
+    if (secure) {
+      cookie += '; secure';
+    }
+    document.cookie = cookie;
+  }
+}
+
+export class MemoryStore implements TourStateStore {
+  private values: Map<string, string> = new Map();
+
+  get(key: string): string | null {
+    return this.values.get(key) ?? null;
+  }
+
+  set(key: string, value: string): void {
+    this.values.set(key, value);
+  }
+
+  clear(key: string): void {
+    this.values.delete(key);
+  }
+}
+
+// localStorage when it works, otherwise state only lasts for the page
+export function createDefaultStore(): TourStateStore {
+  const store = new LocalStorageStore();
+  return store.isAvailable() ? store : new MemoryStore();
+}
@@ -0,0 +1,231 @@
+import { TargetMatch, TourTarget } from './types';
+
+export const TOUR_TARGET_ATTRIBUTE = 'data-tour-id';
+
+// Separates the parts of a selector path, e.g. "my-editor >>> iframe >>> .toolbar"
+export const SELECTOR_PATH_SEPARATOR = '>>>';
+
+export interface TargetWatcher {
+  disconnect: () => void;
+}
+
+type SearchRoot = Document | ShadowRoot;
+
+// Works for elements from other frames too, which `instanceof Element` doesn't
+export function isElement(value: unknown): value is Element {
+  return typeof value === 'object' && value !== null && (value as Node).nodeType === 1;
+}
+
+export function dataTourIdSelector(dataTourId: string): string {
+  return `[${TOUR_TARGET_ATTRIBUTE}="${dataTourId.replace(/["\\]/g, '\\$&')}"]`;
+}
+
+// The selector a target is looked up by, if it has one
+export function getTargetSelector(target: TourTarget): string | null {
+  if (typeof target === 'string') {
+    return target;
+  }
+  if (typeof target === 'function' || isElement(target)) {
+    return null;
+  }
+  return 'dataTourId' in target ? dataTourIdSelector(target.dataTourId) : target.selector;
+}
+
+export function describeTarget(target: TourTarget): string {
+  if (typeof target === 'function') {
+    return 'a target function';
+  }
+  if (isElement(target)) {
+    return `<${target.tagName.toLowerCase()}>`;
+  }
+  return getTargetSelector(target) as string;
+}
+
+// The element's parent, stepping out of shadow roots to their host
+export function getComposedParent(element: Element): Element | null {
+  if (element.parentElement) {
+    return element.parentElement;
+  }
+  const root = element.getRootNode();
+  return root !== element.ownerDocument && 'host' in root ? (root as ShadowRoot).host : null;
+}
+
+// Whether the element is laid out at all. Doesn't check whether it's on screen.
+function isRendered(element: Element): boolean {
+  const view = element.ownerDocument.defaultView ?? window;
+  if (view.getComputedStyle(element).visibility === 'hidden') {
+    return false;
+  }
+
+  for (let node: Element | null = element; node; node = getComposedParent(node)) {
+    if (view.getComputedStyle(node).display === 'none') {
+      return false;
+    }
+  }
+  return true;
+}
+
+export function splitSelectorPath(selector: string): string[] {
+  return selector.split(SELECTOR_PATH_SEPARATOR).map(part => part.trim());
+}
+
+// What a path continues into: an open shadow root, or the document of a same-origin iframe
+export function getInnerRoot(host: Element): SearchRoot | null {
+  if (host.tagName === 'IFRAME') {
+    try {
+      return (host as HTMLIFrameElement).contentDocument;
+    } catch (error) {
+      return null; // Cross-origin
+    }
+  }
+  return host.shadowRoot;
+}
+
+// Follows a selector path as far as it goes. `roots` ends with the root the last part is looked up in.
+function walkSelectorPath(selector: string): { roots: SearchRoot[]; frames: Element[]; complete: boolean } {
+  const parts = splitSelectorPath(selector);
+  const roots: SearchRoot[] = [document];
+  const frames: Element[] = [];
+
+  for (const part of parts.slice(0, -1)) {
+    const host = roots[roots.length - 1].querySelector(part);
+    if (host?.tagName === 'IFRAME') {
+      frames.push(host);
+    }
+    const root = host ? getInnerRoot(host) : null;
+    if (!root) {
+      return { roots, frames, complete: false };
+    }
+    roots.push(root);
+  }
+  return { roots, frames, complete: true };
+}
+
+function pickMatch(elements: Element[], match: TargetMatch): Element | null {
+  if (typeof match === 'number') {
+    return elements[match] ?? null;
+  }
+
+  switch (match) {
+    case 'last':
+      return elements[elements.length - 1] ?? null;
+    case 'first-visible':
+      return elements.find(isRendered) ?? null;
+    default:
+      return elements[0] ?? null;
+  }
+}
+
+// Finds the element for a target, or null if it isn't in the document (yet)
+export function resolveTarget(target: TourTarget, onError: (error: unknown) => void): Element | null {
+  if (typeof target === 'function') {
+    try {
+      const element = target();
+      return element?.isConnected ? element : null;
+    } catch (error) {
+      onError(error);
+      return null;
+    }
+  }
+
+  if (isElement(target)) {
+    return target.isConnected ? target : null;
+  }
+
+  // Selectors set in code are only validated in debug mode, and one the browser can't parse throws a SyntaxError
+  try {
+    const selector = getTargetSelector(target) as string;
+    const { roots, complete } = walkSelectorPath(selector);
+    if (!complete) {
+      return null;
+    }
+
+    const root = roots[roots.length - 1];
+    const lastPart = splitSelectorPath(selector).pop() as string;
+    const match = typeof target === 'string' ? 'first' : target.match ?? 'first';
+    if (match === 'first') {
+      return root.querySelector(lastPart);
+    }
+    return pickMatch(Array.from(root.querySelectorAll(lastPart)), match);
+  } catch (error) {
+    onError(error);
+    return null;
+  }
+}
+
+// Calls `onChange` whenever the target may have appeared, including inside the shadow roots and iframes along its path
+export function watchTarget(target: TourTarget, onChange: () => void): TargetWatcher {
+  const selector = getTargetSelector(target);
+  const observed = new Set<Node>();
+  const frames = new Set<Element>();
+
+  // The data-tour-id may be set on an element that's already in the document
+  const watchesAttribute = typeof target === 'object' && 'dataTourId' in target;
+  const options: MutationObserverInit = {
+    childList: true,
+    subtree: true,
+    ...(watchesAttribute ? { attributes: true, attributeFilter: [TOUR_TARGET_ATTRIBUTE] } : {})
+  };
+
+  const observer = new MutationObserver(() => handleChange());
+
+  // Roots further along the path only exist once their host has appeared, or their iframe has loaded
+  const observeRoots = () => {
+    if (selector === null) {
+      return;
+    }
+
+    let path: ReturnType<typeof walkSelectorPath>;
+    try {
+      path = walkSelectorPath(selector);
+    } catch (error) {
+      return; // Reported when the target is resolved
+    }
+    path.roots.slice(1).forEach(root => {
+      if (!observed.has(root)) {
+        observed.add(root);
+        observer.observe(root, options);
+      }
+    });
+    path.frames.forEach(frame => {
+      if (!frames.has(frame)) {
+        frames.add(frame);
+        frame.addEventListener('load', handleChange);
+      }
+    });
+  };
+  const handleChange = () => {
+    observeRoots();
+    onChange();
+  };
+
+  observer.observe(document.body, options);
+  observeRoots();
+
+  return {
+    disconnect: () => {
+      observer.disconnect();
+      frames.forEach(frame => frame.removeEventListener('load', handleChange));
+      frames.clear();
+    }
+  };
+}
+
+// The element's position in the top window, for elements inside same-origin iframes
+export function getTargetRect(element: Element): Pick<DOMRect, 'top' | 'left' | 'right' | 'bottom' | 'width' | 'height'> {
+  const rect = element.getBoundingClientRect();
+  let top = rect.top;
+  let left = rect.left;
+  let frame = element.ownerDocument.defaultView?.frameElement ?? null;
+  if (!frame) {
+    return rect;
+  }
+
+  while (frame) {
+    const frameRect = frame.getBoundingClientRect();
+    top += frameRect.top + frame.clientTop;
+    left += frameRect.left + frame.clientLeft;
+    frame = frame.ownerDocument.defaultView?.frameElement ?? null;
+  }
+  return { top, left, right: left + rect.width, bottom: top + rect.height, width: rect.width, height: rect.height };
+}
@@ -0,0 +1,240 @@
+import { isElement } from './targets';
+import { InvalidTourDefinitionError, TourDefinition } from './types';
+
+const PLACEMENTS = ['top', 'bottom', 'left', 'right'];
+const TRIGGER_TYPES = ['element', 'event', 'click', 'idle', 'dwell'];
+const PROPERTY_OPERATORS = ['exact', 'is_not', 'gt', 'gte', 'lt', 'lte', 'contains', 'is_set', 'is_not_set'];
+const TARGET_MATCHES = ['first', 'last', 'first-visible'];
+
+type Definition = Record<string, unknown>;
+
+function isObject(value: unknown): value is Definition {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expectType(tourId: string, field: string, value: unknown, type: 'string' | 'number' | 'boolean'): void {
+  if (value !== undefined && typeof value !== type) {
+    throw new InvalidTourDefinitionError(tourId, `"${field}" must be a ${type}`);
+  }
+}
+
+function validateTarget(tourId: string, field: string, target: unknown, allowCode: boolean): void {
+  if (typeof target === 'string' || (allowCode && (typeof target === 'function' || isElement(target)))) {
+    return;
+  }
+
+  const isSelectorObject = isObject(target) && (typeof target.selector === 'string') !== (typeof target.dataTourId === 'string');
+  if (!isSelectorObject) {
+    throw new InvalidTourDefinitionError(tourId, allowCode
+      ? `"${field}" must be a selector, an element, a function, { selector } or { dataTourId }`
+      : `"${field}" must be a selector, { selector } or { dataTourId }`);
+  }
+
+  const match = target.match;
+  const isValidMatch = match === undefined
+    || TARGET_MATCHES.includes(match as string)
+    || (typeof match === 'number' && Number.isInteger(match) && match >= 0);
+  if (!isValidMatch) {
+    throw new InvalidTourDefinitionError(tourId, `"${field}.match" must be one of ${TARGET_MATCHES.join(', ')} or an index`);
+  }
+}
+
+function validateSteps(tourId: string, steps: unknown, allowCode: boolean): void {
+  if (steps === undefined) {
+    return;
+  }
+  if (!Array.isArray(steps)) {
+    throw new InvalidTourDefinitionError(tourId, '"steps" must be an array');
+  }
+
+  steps.forEach((step, index) => {
+    if (!isObject(step) || step.target === undefined) {
+      throw new InvalidTourDefinitionError(tourId, `step ${index} must have a "target" selector`);
+    }
+    validateTarget(tourId, `steps[${index}].target`, step.target, allowCode);
+    expectType(tourId, `steps[${index}].title`, step.title, 'string');
+    expectType(tourId, `steps[${index}].content`, step.content, 'string');
+    if (step.placement !== undefined && !PLACEMENTS.includes(step.placement as string)) {
+      throw new InvalidTourDefinitionError(tourId, `steps[${index}].placement must be one of ${PLACEMENTS.join(', ')}`);
+    }
+  });
+}
+
+function validateUrl(tourId: string, url: unknown, allowCode: boolean): void {
+  if (url === undefined) {
+    return;
+  }
+
+  // JSON can't hold RegExps, so matchers are path globs or conditions on exact values
+  const matchers = Array.isArray(url) ? url : [url];
+  matchers.forEach(matcher => {
+    if (typeof matcher === 'string' || (allowCode && matcher instanceof RegExp)) {
+      return;
+    }
+    if (!isObject(matcher)) {
+      throw new InvalidTourDefinitionError(tourId, '"url" must be a path glob, an object of conditions or a list of them');
+    }
+    if (!(allowCode && matcher.path instanceof RegExp)) {
+      expectType(tourId, 'url.path', matcher.path, 'string');
+    }
+    if (!(allowCode && matcher.hash instanceof RegExp)) {
+      expectType(tourId, 'url.hash', matcher.hash, 'string');
+    }
+    if (matcher.query !== undefined && !isObject(matcher.query)) {
+      throw new InvalidTourDefinitionError(tourId, '"url.query" must be an object');
+    }
+  });
+}
+
+function validateConditions(tourId: string, conditions: unknown, allowCode: boolean): void {
+  if (conditions === undefined) {
+    return;
+  }
+  if (!Array.isArray(conditions)) {
+    throw new InvalidTourDefinitionError(tourId, '"conditions" must be an array');
+  }
+
+  conditions.forEach((condition, index) => {
+    if (!isObject(condition)) {
+      throw new InvalidTourDefinitionError(tourId, `condition ${index} must be an object`);
+    }
+
+    switch (condition.type) {
+      case 'person_property':
+        if (typeof condition.property !== 'string') {
+          throw new InvalidTourDefinitionError(tourId, `condition ${index} must have a "property"`);
+        }
+        if (condition.operator !== undefined && !PROPERTY_OPERATORS.includes(condition.operator as string)) {
+          throw new InvalidTourDefinitionError(tourId, `condition ${index} has an unknown operator "${condition.operator}"`);
+        }
+        break;
+      case 'event':
+        if (typeof condition.event !== 'string') {
+          throw new InvalidTourDefinitionError(tourId, `condition ${index} must have an "event"`);
+        }
+        expectType(tourId, `conditions[${index}].minCount`, condition.minCount, 'number');
+        break;
+      case 'viewport':
+        ['minWidth', 'maxWidth', 'minHeight', 'maxHeight'].forEach(field => {
+          expectType(tourId, `conditions[${index}].${field}`, condition[field], 'number');
+        });
+        break;
+      case 'custom':
+        if (allowCode && typeof condition.check === 'function') {
+          break;
+        }
+        throw new InvalidTourDefinitionError(tourId, allowCode
+          ? `condition ${index} must have a "check" function`
+          : `condition ${index} has an unsupported type "custom"`);
+      default:
+        throw new InvalidTourDefinitionError(tourId, `condition ${index} has an unknown type "${condition.type}"`);
+    }
+  });
+}
+
+function validateTrigger(tourId: string, trigger: unknown): void {
+  if (trigger === undefined) {
+    return;
+  }
+  if (!isObject(trigger) || !TRIGGER_TYPES.includes(trigger.type as string)) {
+    throw new InvalidTourDefinitionError(tourId, `"trigger.type" must be one of ${TRIGGER_TYPES.join(', ')}`);
+  }
+
+  const requiredField = { event: 'event', click: 'selector', idle: 'seconds', dwell: 'seconds' }[trigger.type as string];
+  if (requiredField && trigger[requiredField] === undefined) {
+    throw new InvalidTourDefinitionError(tourId, `"${trigger.type}" triggers need a "${requiredField}"`);
+  }
+}
+
+function validateVisibility(tourId: string, visibility: unknown): void {
+  if (visibility === undefined || visibility === false) {
+    return;
+  }
+  if (!isObject(visibility)) {
+    throw new InvalidTourDefinitionError(tourId, '"visibility" must be an object or false');
+  }
+
+  expectType(tourId, 'visibility.threshold', visibility.threshold, 'number');
+  expectType(tourId, 'visibility.minVisibleMs', visibility.minVisibleMs, 'number');
+  expectType(tourId, 'visibility.timeoutMs', visibility.timeoutMs, 'number');
+  expectType(tourId, 'visibility.checkStyles', visibility.checkStyles, 'boolean');
+  expectType(tourId, 'visibility.checkOcclusion', visibility.checkOcclusion, 'boolean');
+  if (typeof visibility.threshold === 'number' && (visibility.threshold < 0 || visibility.threshold > 1)) {
+    throw new InvalidTourDefinitionError(tourId, '"visibility.threshold" must be between 0 and 1');
+  }
+}
+
+// `allowCode` accepts what only tours configured in code can hold, i.e. RegExps, functions and elements
+export function validateTourDefinition(tourId: string, definition: Definition, allowCode = false, isVariant = false): void {
+  if (!isVariant && typeof definition.name !== 'string') {
+    throw new InvalidTourDefinitionError(tourId, '"name" is required');
+  }
+
+  expectType(tourId, 'name', definition.name, 'string');
+  if (definition.target !== undefined) {
+    validateTarget(tourId, 'target', definition.target, allowCode);
+  }
+  expectType(tourId, 'priority', definition.priority, 'number');
+  expectType(tourId, 'useRenderer', definition.useRenderer, 'boolean');
+  validateSteps(tourId, definition.steps, allowCode);
+  validateUrl(tourId, definition.url, allowCode);
+  validateConditions(tourId, definition.conditions, allowCode);
+  validateTrigger(tourId, definition.trigger);
+  validateVisibility(tourId, definition.visibility);
+
+  if (!isVariant && definition.target === undefined && !(definition.steps as unknown[] | undefined)?.length) {
+    throw new InvalidTourDefinitionError(tourId, 'either "target" or "steps" is required');
+  }
+
+  if (definition.after !== undefined && (!Array.isArray(definition.after) || definition.after.some(id => typeof id !== 'string'))) {
+    throw new InvalidTourDefinitionError(tourId, '"after" must be an array of tour ids');
+  }
+
+  if (definition.snoozeDuration !== undefined) {
+    if (!isObject(definition.snoozeDuration)) {
+      throw new InvalidTourDefinitionError(tourId, '"snoozeDuration" must be an object');
+    }
+    expectType(tourId, 'snoozeDuration.hours', definition.snoozeDuration.hours, 'number');
+    expectType(tourId, 'snoozeDuration.sessions', definition.snoozeDuration.sessions, 'number');
+  }
+
+  if (definition.variants !== undefined) {
+    if (isVariant || !isObject(definition.variants)) {
+      throw new InvalidTourDefinitionError(tourId, '"variants" must be an object keyed by flag variant');
+    }
+    Object.values(definition.variants).forEach(variant => {
+      if (variant === null) {
+        return;
+      }
+      if (!isObject(variant)) {
+        throw new InvalidTourDefinitionError(tourId, 'each variant must be an object or null');
+      }
+      validateTourDefinition(tourId, variant, allowCode, true);
+    });
+  }
+}
+
+// Parses tour definitions from a JSON string or an already parsed object keyed by tour id
+export function parseTourDefinitions(input: unknown): Record<string, TourDefinition> {
+  let definitions = input;
+  if (typeof definitions === 'string') {
+    try {
+      definitions = JSON.parse(definitions);
+    } catch (error) {
+      throw new InvalidTourDefinitionError(null, 'not valid JSON');
+    }
+  }
+
+  if (!isObject(definitions)) {
+    throw new InvalidTourDefinitionError(null, 'expected an object keyed by tour id');
+  }
+
+  Object.entries(definitions).forEach(([tourId, definition]) => {
+    if (!isObject(definition)) {
+      throw new InvalidTourDefinitionError(tourId, 'must be an object');
+    }
+    validateTourDefinition(tourId, definition);
+  });
+
+  return definitions as Record<string, TourDefinition>;
+}
@@ -1,9 +1,128 @@
 import posthog from 'posthog-js';
 
+export type TourPlacement = 'top' | 'bottom' | 'left' | 'right';
+
+// Which element to use when several match: the first, the last, the first one that's rendered, or the nth (from 0)
+export type TargetMatch = 'first' | 'last' | 'first-visible' | number;
+
+export type TourTarget =
+  | string // CSS selector
+  | Element
+  | (() => Element | null) // Called whenever the DOM changes until it returns a connected element
+  | { selector: string; match?: TargetMatch }
+  | { dataTourId: string; match?: TargetMatch }; // Elements with a matching data-tour-id attribute
+
+export interface TourStep {
+  target: TourTarget; // The element this step is anchored to
+  title?: string;
+  content?: string;
+  placement?: TourPlacement;
+}
+
 export interface TourConfig {
   name: string;
-  target: string; // CSS selector for the element to highlight
+  target?: TourTarget; // The element that triggers the tour (defaults to the first step's target)
+  steps?: TourStep[];
   onEligible?: (element: Element, tourId: string) => void;
+  onStepChange?: (element: Element, step: TourStep, stepIndex: number, tourId: string) => void;
+  useRenderer?: boolean; // Set to false to skip the configured renderer for this tour
+  snoozeDuration?: SnoozeDuration; // Adds a "Remind me later" button to the renderer
+  variants?: Record<string, TourVariantConfig | null>; // Keyed by feature flag variant, null shows no tour for that variant
+  priority?: number; // When several tours are eligible, the highest priority wins (default 0)
+  after?: string[]; // Ids of tours that must be completed before this one can show
+  url?: UrlMatcher | UrlMatcher[]; // Only show the tour on pages matching one of these (default: every page)
+  conditions?: TourCondition[]; // Client-side audience conditions, all of which must pass
+  trigger?: TourTrigger; // What prompts the tour to show (default: the target appearing)
+  visibility?: VisibilityOptions | false; // Overrides checkElementVisibility for this tour, false skips the check
+}
+
+export interface VisibilityOptions {
+  threshold?: number; // Share of the target that must be in view, from 0 to 1 (default 0.1). Targets larger than the viewport only need to fill that share of it.
+  minVisibleMs?: number; // How long the target must stay visible before the tour shows (default 0)
+  timeoutMs?: number; // Give up waiting after this long (default 30000)
+  checkStyles?: boolean; // Treat targets hidden with display, visibility or opacity as not visible (default true)
+  checkOcclusion?: boolean; // Treat targets covered by another element, e.g. a modal, as not visible (default true)
+}
+
+export type TourTrigger =
+  | { type: 'element' } // The target appears in the DOM
+  | { type: 'event'; event: string } // A PostHog event is captured
+  | { type: 'click'; selector: string } // The user clicks an element matching the selector
+  | { type: 'idle'; seconds: number } // The user has been inactive on the page for this long
+  | { type: 'dwell'; seconds: number }; // The target has been visible for this long
+
+export type TourTriggerType = TourTrigger['type'];
+
+export type PropertyOperator = 'exact' | 'is_not' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains' | 'is_set' | 'is_not_set';
+
+export interface PersonPropertyCondition {
+  type: 'person_property';
+  property: string; // Read from the person properties PostHog has stored for the user
+  operator?: PropertyOperator; // Defaults to 'exact'
+  value?: string | number | boolean;
+}
+
+export interface EventCondition {
+  type: 'event';
+  event: string;
+  minCount?: number; // Times the event must have been captured this session (default 1)
+}
+
+export interface ViewportCondition {
+  type: 'viewport';
+  minWidth?: number;
+  maxWidth?: number;
+  minHeight?: number;
+  maxHeight?: number;
+}
+
+export interface CustomCondition {
+  type: 'custom';
+  name?: string; // Shown in debug logs
+  check: (tourId: string) => boolean | Promise<boolean>;
+}
+
+export type TourCondition = PersonPropertyCondition | EventCondition | ViewportCondition | CustomCondition;
+
+// A path glob such as '/projects/*/settings' ('*' matches one path segment, '**' any number), a RegExp
+// tested against the full URL, or a set of conditions that must all match
+export type UrlMatcher = string | RegExp | UrlConditions;
+
+export interface UrlConditions {
+  path?: string | RegExp; // Glob or RegExp for location.pathname
+  query?: Record<string, string | RegExp | boolean>; // true requires the param, false requires it to be absent
+  hash?: string | RegExp; // Exact hash (e.g. '#/settings') or RegExp
+}
+
+export type TourVariantConfig = Partial<Omit<TourConfig, 'variants'>>;
+
+// A tour without callbacks, as loaded from JSON (e.g. a feature flag payload)
+export type TourDefinition = Omit<TourConfig, 'onEligible' | 'onStepChange'>;
+
+export interface ActiveTourState {
+  tourId: string;
+  stepIndex: number;
+  stepCount: number;
+  step: TourStep;
+}
+
+export interface StepRenderContext {
+  tourId: string;
+  tourName: string;
+  stepIndex: number;
+  stepCount: number;
+}
+
+export interface StepRendererControls {
+  next: () => void;
+  previous: () => void;
+  dismiss: () => void;
+  snooze?: () => void; // Only set when the tour has a `snoozeDuration`
+}
+
+export interface StepRenderer {
+  show(element: Element, step: TourStep, context: StepRenderContext, controls: StepRendererControls): void;
+  hide(): void;
 }
 
 export interface FeatureFlagTour {
@@ -11,21 +130,134 @@ export interface FeatureFlagTour {
   tour: TourConfig;
 }
 
+export type TourStatus = 'completed' | 'dismissed' | 'snoozed';
+
+export interface TourStateRecord {
+  status: TourStatus;
+  timestamp: number; // When the status was recorded, in ms since epoch (0 for migrated legacy entries)
+  lastStep: number; // Index of the last step the user reached
+  snoozedUntil?: number; // Snoozed tours become eligible again after this time, in ms since epoch
+  snoozeSessions?: number; // Snoozed tours become eligible again after this many new sessions
+  snoozeSessionsElapsed?: number;
+  snoozeSessionId?: string; // The most recent session counted towards `snoozeSessions`
+}
+
+export interface SnoozeDuration {
+  hours?: number;
+  sessions?: number;
+}
+
+export type TourBlockedReason =
+  | 'flag_disabled'
+  | 'url_mismatch'
+  | 'not_triggered'
+  | 'target_missing'
+  | 'already_seen'
+  | 'snoozed'
+  | 'prerequisites_not_met'
+  | 'condition_failed'
+  | 'session_limit'
+  | 'daily_limit'
+  | 'min_gap'
+  | 'active_in_other_tab'
+  | 'not_visible'
+  | 'removed'
+  | 'destroyed';
+
 export interface TourEligibilityResult {
   eligible: boolean;
   element: Element | null;
   tourId: string;
   flagEnabled: boolean;
+  urlMatched: boolean;
+  triggered: boolean; // Always true for tours triggered by their target appearing
   targetPresent: boolean;
   alreadySeen: boolean;
+  status: TourStatus | null;
+  variant: string | null;
+  prerequisitesMet: boolean;
+  conditionsMet: boolean;
+  failedCondition: TourCondition | null; // The first of the tour's conditions that didn't pass
+  queued: boolean; // Eligible, but waiting for the active tour to end
+  blockedReason: TourBlockedReason | null; // Why the tour is not eligible, null when it is
+}
+
+export type TourAnalyticsEvent =
+  | 'tour_shown'
+  | 'tour_step_viewed'
+  | 'tour_completed'
+  | 'tour_dismissed'
+  | 'tour_skipped'
+  | 'tour_snoozed'
+  | 'tour_enqueued'
+  | 'tour_dequeued'
+  | 'tour_seen';
+
+export interface TourEligibilitySnapshot {
+  eligible: boolean;
+  queued: boolean;
+  blockedReason: TourBlockedReason | null;
+}
+
+export interface TourSnapshot {
+  eligibility: TourEligibilitySnapshot | null; // From the latest eligibility check, null until the tour has been checked
+  state: TourStateRecord | null;
+}
+
+// Everything a UI needs to render tours. A new, frozen object is created whenever something changes.
+export interface PostHogToursSnapshot {
+  activeTour: ActiveTourState | null;
+  queue: readonly string[];
+  paused: boolean;
+  tours: Readonly<Record<string, Readonly<TourSnapshot>>>;
+}
+
+// Payloads of the events PostHogTours emits to listeners added with `on()`
+export interface PostHogToursEvents {
+  eligible: { tourId: string; element: Element; queued: boolean }; // Queued tours show once the active tour ends
+  shown: { tourId: string; element: Element; triggerType: TourTriggerType | 'forced' };
+  stepChanged: { tourId: string; stepIndex: number; step: TourStep; element: Element };
+  completed: { tourId: string; stepIndex: number | null }; // Null when the tour wasn't showing
+  dismissed: { tourId: string; stepIndex: number | null };
+  hidden: { tourId: string; reason: TourBlockedReason }; // Closed without being completed or dismissed, so custom UIs should close too
+  blocked: { tourId: string; reason: TourBlockedReason; result: TourEligibilityResult };
+  stateSynced: { tourId: string; record: TourStateRecord; source: 'tab' | 'posthog' }; // State changed somewhere else
+  error: { message: string; error: unknown };
+}
+
+export type PostHogToursEvent = keyof PostHogToursEvents;
+
+export type PostHogToursListener<E extends PostHogToursEvent> = (payload: PostHogToursEvents[E]) => void;
+
+// Key-value storage for tour state. Methods may return promises, e.g. for a store backed by your own API
+export interface TourStateStore {
+  get(key: string): string | null | Promise<string | null>;
+  set(key: string, value: string): void | Promise<void>;
+  clear(key: string): void | Promise<void>; // Removes the key
+}
+
+export interface FrequencyCapOptions {
+  maxToursPerSession?: number;
+  maxToursPerDay?: number; // Counted over the last 24 hours
+  minMinutesBetweenTours?: number; // Measured from the end of the previous tour
 }
 
 export interface PostHogToursOptions {
-  tours: Record<string, TourConfig>;
+  tours?: Record<string, TourConfig>;
+  toursPayloadFlag?: string; // Feature flag whose JSON payload holds tour definitions
+  toursUrl?: string; // URL to fetch tour definitions from as JSON
   posthogInstance?: typeof posthog;
   userPropertyPrefix?: string;
   defaultOnEligible?: (element: Element, tourId: string) => void;
-  checkElementVisibility?: boolean;
+  defaultOnStepChange?: (element: Element, step: TourStep, stepIndex: number, tourId: string) => void;
+  checkElementVisibility?: boolean | VisibilityOptions; // Only show tours once their target is visible (default true)
+  stateStore?: TourStateStore; // Where tour state is kept on this device (localStorage by default)
+  mergeAnonymousState?: boolean; // Keep the tours an anonymous user saw when they identify (default true)
+  renderer?: StepRenderer; // Built-in UI for steps, e.g. `new TourRenderer()`
+  frequencyCap?: FrequencyCapOptions;
+  crossTab?: boolean; // Only show a tour in one tab at a time and share tour state between tabs (default true)
+  reshowDismissedAfterHours?: number; // Dismissed tours become eligible again after this many hours (never by default)
+  analytics?: Partial<Record<TourAnalyticsEvent, boolean>>; // Set an event to false to stop capturing it (all enabled by default)
   debug?: boolean; // When false (default), suppresses all console output
 }
 
@@ -34,4 +266,49 @@ export class PostHogNotInitializedError extends Error {
     super('PostHog has not been initialized. Please initialize PostHog before using posthog-tours.');
     this.name = 'PostHogNotInitializedError';
   }
-} 
\ No newline at end of file
+}
+
+// Base class for problems with a tour's configuration
+export class TourConfigError extends Error {
+  constructor(public tourId: string | null, message: string) {
+    super(message);
+    this.name = 'TourConfigError';
+  }
+}
+
+export class InvalidTourDefinitionError extends TourConfigError {
+  constructor(tourId: string | null, message: string) {
+    super(tourId, tourId ? `Invalid definition for tour "${tourId}": ${message}` : `Invalid tour definitions: ${message}`);
+    this.name = 'InvalidTourDefinitionError';
+  }
+}
+
+export class InvalidSelectorError extends TourConfigError {
+  constructor(tourId: string, public selector: string, public field: string) {
+    super(tourId, `Tour "${tourId}" has an invalid CSS selector in ${field}: "${selector}"`);
+    this.name = 'InvalidSelectorError';
+  }
+}
+
+export class DuplicateTourIdError extends TourConfigError {
+  constructor(tourId: string, public existingTourId: string = tourId) {
+    super(tourId, existingTourId === tourId
+      ? `Tour "${tourId}" already exists`
+      : `Tour "${tourId}" only differs from tour "${existingTourId}" in case or whitespace`);
+    this.name = 'DuplicateTourIdError';
+  }
+}
+
+export class UnknownPrerequisiteError extends TourConfigError {
+  constructor(tourId: string, public prerequisiteId: string) {
+    super(tourId, `Tour "${tourId}" is set to show after unknown tour "${prerequisiteId}"`);
+    this.name = 'UnknownPrerequisiteError';
+  }
+}
+
+export class UnknownTourError extends TourConfigError {
+  constructor(tourId: string) {
+    super(tourId, `Unknown tour "${tourId}". Add it to the tours option or register it with addTour.`);
+    this.name = 'UnknownTourError';
+  }
+}
@@ -0,0 +1,104 @@
+import { UrlConditions, UrlMatcher } from './types';
+
+const LOCATION_CHANGE_EVENT = 'posthog-tours:locationchange';
+
+let historyPatched = false;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function normalizePath(path: string): string {
+  // Treat '/settings' and '/settings/' as the same page
+  return path.length > 1 ? path.replace(/\/+$/, '') : path;
+}
+
+export function globToRegExp(glob: string): RegExp {
+  const pattern = normalizePath(glob)
+    .split('**')
+    .map(part => part.split('*').map(escapeRegExp).join('[^/]*'))
+    .join('.*');
+
+  return new RegExp(`^${pattern}$`);
+}
+
+function matchesPath(path: string | RegExp, location: Location): boolean {
+  if (path instanceof RegExp) {
+    return path.test(location.pathname);
+  }
+
+  return globToRegExp(path).test(normalizePath(location.pathname));
+}
+
+function matchesConditions(conditions: UrlConditions, location: Location): boolean {
+  if (conditions.path !== undefined && !matchesPath(conditions.path, location)) {
+    return false;
+  }
+
+  if (conditions.hash !== undefined) {
+    const hashMatches = conditions.hash instanceof RegExp
+      ? conditions.hash.test(location.hash)
+      : conditions.hash === location.hash;
+    if (!hashMatches) {
+      return false;
+    }
+  }
+
+  const params = new URLSearchParams(location.search);
+  return Object.entries(conditions.query || {}).every(([key, expected]) => {
+    const value = params.get(key);
+    if (typeof expected === 'boolean') {
+      return expected === (value !== null);
+    }
+    if (value === null) {
+      return false;
+    }
+    return expected instanceof RegExp ? expected.test(value) : expected === value;
+  });
+}
+
+export function matchesUrl(matchers: UrlMatcher | UrlMatcher[] | undefined, location: Location = window.location): boolean {
+  if (matchers === undefined) {
+    return true;
+  }
+
+  const list = Array.isArray(matchers) ? matchers : [matchers];
+  return list.some(matcher => {
+    if (typeof matcher === 'string') {
+      return matchesPath(matcher, location);
+    }
+    if (matcher instanceof RegExp) {
+      return matcher.test(location.href);
+    }
+    return matchesConditions(matcher, location);
+  });
+}
+
+function patchHistory(): void {
+  if (historyPatched) {
+    return;
+  }
+  historyPatched = true;
+
+  // pushState and replaceState don't fire any event, so announce them ourselves
+  (['pushState', 'replaceState'] as const).forEach(method => {
+    const original = history[method];
+    history[method] = function (this: History, ...args: Parameters<History['pushState']>) {
+      const result = original.apply(this, args);
+      window.dispatchEvent(new Event(LOCATION_CHANGE_EVENT));
+      return result;
+    };
+  });
+}
+
+// Calls `callback` after every SPA navigation, returns a function that stops listening
+export function onNavigation(callback: () => void): () => void {
+  patchHistory();
+
+  const events = [LOCATION_CHANGE_EVENT, 'popstate', 'hashchange'];
+  events.forEach(event => window.addEventListener(event, callback));
+
+  return () => {
+    events.forEach(event => window.removeEventListener(event, callback));
+  };
+}
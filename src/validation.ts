@@ -0,0 +1,109 @@
+import { getTargetSelector, splitSelectorPath } from './targets';
+import { validateTourDefinition } from './tourDefinitions';
+import {
+  DuplicateTourIdError,
+  InvalidSelectorError,
+  TourConfig,
+  TourConfigError,
+  TourTarget,
+  UnknownPrerequisiteError
+} from './types';
+
+function isValidSelector(selector: string): boolean {
+  try {
+    // Throws a SyntaxError for selectors the browser can't parse
+    document.createDocumentFragment().querySelector(selector);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+// Targets can be a path through shadow roots and iframes, e.g. "my-editor >>> .toolbar", whose parts are each a selector
+function isValidTargetSelector(selector: string): boolean {
+  return splitSelectorPath(selector).every(isValidSelector);
+}
+
+// Structural problems with a target are reported by validateTourDefinition
+function getTargetSelectorSafely(target: unknown): string | null {
+  try {
+    const selector = getTargetSelector(target as TourTarget);
+    return typeof selector === 'string' ? selector : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+interface SelectorField {
+  field: string;
+  selector: string;
+  isValid: (selector: string) => boolean;
+}
+
+function getSelectors(tour: Partial<TourConfig>, prefix = ''): SelectorField[] {
+  const selectors: SelectorField[] = [];
+  const addTarget = (field: string, target: unknown) => {
+    const selector = getTargetSelectorSafely(target);
+    if (selector !== null) {
+      selectors.push({ field, selector, isValid: isValidTargetSelector });
+    }
+  };
+
+  addTarget(`${prefix}target`, tour.target);
+  if (Array.isArray(tour.steps)) {
+    tour.steps.forEach((step, index) => addTarget(`${prefix}steps[${index}].target`, step?.target));
+  }
+  if (tour.trigger?.type === 'click' && typeof tour.trigger.selector === 'string') {
+    selectors.push({ field: `${prefix}trigger.selector`, selector: tour.trigger.selector, isValid: isValidSelector });
+  }
+
+  return selectors;
+}
+
+// Selectors the browser can't parse, including those in variants
+export function validateTourSelectors(tourId: string, tour: Partial<TourConfig>): InvalidSelectorError[] {
+  const selectors = getSelectors(tour);
+  Object.entries(tour.variants || {}).forEach(([variant, overrides]) => {
+    if (overrides) {
+      selectors.push(...getSelectors(overrides, `variants.${variant}.`));
+    }
+  });
+  return selectors
+    .filter(({ selector, isValid }) => !isValid(selector))
+    .map(({ field, selector }) => new InvalidSelectorError(tourId, selector, field));
+}
+
+// Checks every tour and returns all problems found, rather than stopping at the first one
+export function validateTourConfigs(tours: Record<string, TourConfig>): TourConfigError[] {
+  const errors: TourConfigError[] = [];
+  const normalizedIds = new Map<string, string>();
+
+  Object.entries(tours).forEach(([tourId, tour]) => {
+    // Flag keys that only differ in case or whitespace are almost always a typo
+    const normalizedId = tourId.trim().toLowerCase();
+    const existingTourId = normalizedIds.get(normalizedId);
+    if (existingTourId !== undefined) {
+      errors.push(new DuplicateTourIdError(tourId, existingTourId));
+    } else {
+      normalizedIds.set(normalizedId, tourId);
+    }
+
+    try {
+      validateTourDefinition(tourId, tour as unknown as Record<string, unknown>, true);
+    } catch (error) {
+      if (error instanceof TourConfigError) {
+        errors.push(error);
+      } else {
+        throw error;
+      }
+    }
+
+    errors.push(...validateTourSelectors(tourId, tour));
+
+    (Array.isArray(tour.after) ? tour.after : [])
+      .filter(prerequisiteId => !tours[prerequisiteId])
+      .forEach(prerequisiteId => errors.push(new UnknownPrerequisiteError(tourId, prerequisiteId)));
+  });
+
+  return errors;
+}
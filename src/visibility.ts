@@ -0,0 +1,229 @@
+import { getComposedParent, getInnerRoot, getTargetRect } from './targets';
+import { VisibilityOptions } from './types';
+
+export const DEFAULT_VISIBILITY_OPTIONS: Required<VisibilityOptions> = {
+  threshold: 0.1,
+  minVisibleMs: 0,
+  timeoutMs: 30000,
+  checkStyles: true,
+  checkOcclusion: true
+};
+
+// Style and occlusion changes don't fire any event, so pending checks look again this often
+const POLL_INTERVAL_MS = 250;
+
+const CLIPPING_OVERFLOW = ['auto', 'scroll', 'hidden', 'clip'];
+
+interface Box {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+function getStyle(element: Element): CSSStyleDeclaration {
+  return (element.ownerDocument.defaultView ?? window).getComputedStyle(element);
+}
+
+// Like getComposedParent, but also steps out of iframes to the iframe element
+function getContainer(element: Element): Element | null {
+  return getComposedParent(element) ?? element.ownerDocument.defaultView?.frameElement ?? null;
+}
+
+function contains(ancestor: Element, element: Element): boolean {
+  for (let node: Element | null = element; node; node = getContainer(node)) {
+    if (node === ancestor) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Hidden with display: none, visibility: hidden or opacity: 0, on the element or anything around it
+export function isHiddenByStyle(element: Element): boolean {
+  const visibility = getStyle(element).visibility;
+  if (visibility === 'hidden' || visibility === 'collapse') {
+    return true;
+  }
+
+  for (let node: Element | null = element; node; node = getContainer(node)) {
+    const style = getStyle(node);
+    if (style.display === 'none' || parseFloat(style.opacity) === 0) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Iframes and scroll containers cut off whatever overflows them. Overflow on the root and body scrolls the viewport instead.
+function isClipping(element: Element): boolean {
+  if (element.tagName === 'IFRAME') {
+    return true;
+  }
+  if (element === element.ownerDocument.documentElement || element === element.ownerDocument.body) {
+    return false;
+  }
+
+  const style = getStyle(element);
+  return [style.overflow, style.overflowX, style.overflowY]
+    .some(overflow => overflow?.split(' ').some(value => CLIPPING_OVERFLOW.includes(value)));
+}
+
+// The share of the box that's inside the clip along one axis. Boxes larger than the clip only need to fill it.
+function getAxisRatio(start: number, size: number, clipStart: number, clipEnd: number): number {
+  const clipSize = clipEnd - clipStart;
+  if (clipSize <= 0) {
+    return 0;
+  }
+  // Elements without a size, e.g. display: contents wrappers, count as visible when their position is
+  if (size <= 0) {
+    return start >= clipStart && start <= clipEnd ? 1 : 0;
+  }
+
+  const overlap = Math.min(start + size, clipEnd) - Math.max(start, clipStart);
+  return Math.max(0, overlap) / Math.min(size, clipSize);
+}
+
+// How much of the element is in the viewport and not scrolled out of its scroll containers, and the part that is
+function measure(element: Element): { ratio: number; visibleBox: Box } {
+  const rect = getTargetRect(element);
+  const clip: Box = {
+    top: 0,
+    left: 0,
+    bottom: window.innerHeight || document.documentElement.clientHeight,
+    right: window.innerWidth || document.documentElement.clientWidth
+  };
+
+  for (let node = getContainer(element); node; node = getContainer(node)) {
+    if (isClipping(node)) {
+      const containerRect = getTargetRect(node);
+      clip.top = Math.max(clip.top, containerRect.top);
+      clip.left = Math.max(clip.left, containerRect.left);
+      clip.bottom = Math.min(clip.bottom, containerRect.bottom);
+      clip.right = Math.min(clip.right, containerRect.right);
+    }
+  }
+
+  return {
+    ratio: getAxisRatio(rect.left, rect.width, clip.left, clip.right) * getAxisRatio(rect.top, rect.height, clip.top, clip.bottom),
+    visibleBox: {
+      top: Math.max(rect.top, clip.top),
+      left: Math.max(rect.left, clip.left),
+      bottom: Math.min(rect.bottom, clip.bottom),
+      right: Math.min(rect.right, clip.right)
+    }
+  };
+}
+
+// The innermost element at a point in the top window, looking inside shadow roots and same-origin iframes
+function getElementAtPoint(x: number, y: number): Element | null {
+  let root: Document | ShadowRoot = document;
+  let offsetX = 0;
+  let offsetY = 0;
+  let hit: Element | null = null;
+
+  while (typeof root.elementFromPoint === 'function') {
+    const next: Element | null = root.elementFromPoint(x - offsetX, y - offsetY);
+    if (!next || next === hit) {
+      break;
+    }
+
+    hit = next;
+    const innerRoot = getInnerRoot(next);
+    if (!innerRoot) {
+      break;
+    }
+
+    if (next.tagName === 'IFRAME') {
+      const frameRect = getTargetRect(next);
+      offsetX = frameRect.left + next.clientLeft;
+      offsetY = frameRect.top + next.clientTop;
+    }
+    root = innerRoot;
+  }
+  return hit;
+}
+
+// Whether something else is on top of the visible part of the element at each of a few points
+function isOccluded(element: Element, box: Box): boolean {
+  if (typeof document.elementFromPoint !== 'function') {
+    return false; // Can't tell
+  }
+
+  const width = box.right - box.left;
+  const height = box.bottom - box.top;
+  const points = [[0.5, 0.5], [0.25, 0.25], [0.75, 0.25], [0.25, 0.75], [0.75, 0.75]];
+
+  return points.every(([x, y]) => {
+    const hit = getElementAtPoint(box.left + width * x, box.top + height * y);
+    return hit !== null && !contains(element, hit);
+  });
+}
+
+export function isElementVisible(element: Element, options: Required<VisibilityOptions>): boolean {
+  if (!element.isConnected || (options.checkStyles && isHiddenByStyle(element))) {
+    return false;
+  }
+
+  const { ratio, visibleBox } = measure(element);
+  if (ratio <= 0 || ratio < options.threshold) {
+    return false;
+  }
+  return !options.checkOcclusion || !isOccluded(element, visibleBox);
+}
+
+// Calls `onResult(true)` once the element has stayed visible for `minVisibleMs`, or `onResult(false)` after `timeoutMs`.
+// Returns a function that stops waiting, which also calls `onResult(false)`.
+export function waitForVisibility(
+  element: Element,
+  options: Required<VisibilityOptions>,
+  onResult: (isVisible: boolean) => void
+): () => void {
+  let visibleSince: number | null = null;
+  let finished = false;
+  let observer: IntersectionObserver | null = null;
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+
+  const finish = (isVisible: boolean) => {
+    if (finished) {
+      return;
+    }
+    finished = true;
+    observer?.disconnect();
+    if (pollTimer !== null) {
+      clearInterval(pollTimer);
+    }
+    if (timeout !== null) {
+      clearTimeout(timeout);
+    }
+    onResult(isVisible);
+  };
+
+  const check = () => {
+    if (!isElementVisible(element, options)) {
+      visibleSince = null;
+      return;
+    }
+
+    visibleSince = visibleSince ?? Date.now();
+    if (Date.now() - visibleSince >= options.minVisibleMs) {
+      finish(true);
+    }
+  };
+
+  check();
+  if (finished) {
+    return () => undefined;
+  }
+
+  // Scrolling is reported straight away where IntersectionObserver is available
+  if (typeof IntersectionObserver !== 'undefined') {
+    observer = new IntersectionObserver(check, { threshold: [0, options.threshold, 1] });
+    observer.observe(element);
+  }
+  pollTimer = setInterval(check, POLL_INTERVAL_MS);
+  timeout = setTimeout(() => finish(false), options.timeoutMs);
+
+  return () => finish(false);
+}